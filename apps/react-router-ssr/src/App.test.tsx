@@ -0,0 +1,39 @@
+// @vitest-environment jsdom
+// Приложение в jsdom: клиентская навигация, /api/page обслуживается контрактом в памяти
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRoot } from 'react-dom/client';
+import { renderClient, type TestClient } from '@monorepo/contract-page-2/testing';
+import { app } from './App';
+import { contractWithCtx } from './routes';
+import { fakeApi } from './api/fakeRickAndMorty';
+
+let client: TestClient | undefined;
+
+// Прокрутки после перехода в jsdom нет
+beforeEach(() => {
+  vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  client?.unmount();
+  client = undefined;
+  vi.restoreAllMocks();
+});
+
+describe('renderClient', () => {
+  it('navigates from the list to a character', async () => {
+    client = await renderClient(app, { contract: contractWithCtx, createRoot, url: '/characters', fetch: fakeApi });
+    expect(client.container.textContent).toContain('Rick and Morty Characters');
+
+    await client.navigate('/characters/2');
+    expect(client.container.textContent).toContain('Morty Smith');
+    expect(client.container.textContent).toContain('Species: Human');
+    expect(window.location.pathname).toBe('/characters/2');
+  });
+
+  it('shows not-found for an unknown episode', async () => {
+    client = await renderClient(app, { contract: contractWithCtx, createRoot, url: '/episode/999', fetch: fakeApi });
+    expect(client.container.textContent).toContain('Episode 999 not found');
+  });
+});
@@ -2,33 +2,69 @@
  * Определение приложения
  */
 
-import { useState, useEffect, createElement } from 'react';
-import { enhanceContractWithSPA, navigateTo } from '@monorepo/contract-page-2';
-import { contractWithCtx } from './routes';
+import { useState, useEffect, createElement, createContext, useContext } from 'react';
+import {
+  enhanceContractWithSPA,
+  Link,
+  useNavigation,
+  type LinkState,
+  type PageErrorResult,
+} from '@monorepo/contract-page-2';
+import { contractWithCtx, charactersPage, episodesPage } from './routes';
 
 // Импорт страниц для регистрации компонентов
 import './pages';
 
+// Активный пункт меню выделяется, пока загружается переход - приглушается
+const navLinkClassName = ({ isActive, isPending }: LinkState) =>
+  [isActive && 'nav-link-active', isPending && 'nav-link-pending'].filter(Boolean).join(' ') || undefined;
+
+// Полоса загрузки вверху страницы, пока загружается переход или выполняется action
+function NavigationProgress() {
+  const navigation = useNavigation();
+  if (navigation.state === 'idle' || (navigation.state === 'loading' && navigation.revalidation)) {
+    return null;
+  }
+  return <div className="navigation-progress" />;
+}
+
 // Создаём app - будет использоваться и на сервере и на клиенте
 export const app = enhanceContractWithSPA(contractWithCtx).defineApp({
-  React: { useState, useEffect, createElement },
+  React: { useState, useEffect, createElement, createContext, useContext },
   renderApp: ({ router, appContext }: { router: any; appContext?: any }) => (
     <div style={{ fontFamily: 'system-ui, sans-serif', padding: '20px', maxWidth: '1200px', margin: '0 auto' }}>
+      <NavigationProgress />
       <header style={{ marginBottom: '24px', borderBottom: '1px solid #eee', paddingBottom: '16px' }}>
         <nav style={{ display: 'flex', gap: '16px' }}>
-          <a href="/" onClick={(e) => { e.preventDefault(); navigateTo('/'); }}>Characters</a>
-          <a href="/episodes" onClick={(e) => { e.preventDefault(); navigateTo('/episodes'); }}>Episodes</a>
+          <Link to={charactersPage} prefetch="hover" className={navLinkClassName}>Characters</Link>
+          <Link to={episodesPage} prefetch="hover" className={navLinkClassName}>Episodes</Link>
         </nav>
         {appContext && (
           <div style={{ marginTop: '8px', color: '#666', fontSize: '14px' }}>
-            User: {appContext.userId} | Session: {appContext.sessionId} | URL: {appContext.url}
+            User: {appContext.userId} | URL: {appContext.url}
           </div>
         )}
       </header>
       <main>{router}</main>
     </div>
   ),
+  seo: {
+    titleTemplate: '%s | Rick and Morty',
+    defaults: {
+      title: 'Rick and Morty',
+      description: 'Characters and episodes from the Rick and Morty universe',
+      openGraph: { siteName: 'Rick and Morty', type: 'website' },
+    },
+  },
+  // appContext переиспользуется между переходами, при смене раздела загружается заново (URL в шапке)
+  appContext: { dependsOn: ['/characters', '/episodes', '/episode'] },
+  // Текущая страница остается на экране во время перехода, loading - только если загрузка дольше 500ms
+  keepPreviousView: true,
+  loadingThreshold: 500,
+  viewTransition: true,
   notFound: () => createElement('div', null, '404 - Page Not Found'),
   loading: () => createElement('div', null, 'Loading...'),
+  error: ({ error }: { error: PageErrorResult }) =>
+    createElement('div', null, `${error.status} - ${error.message}`),
 });
 
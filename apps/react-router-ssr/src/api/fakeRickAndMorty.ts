@@ -0,0 +1,62 @@
+/**
+ * Fake Rick and Morty API for tests: fetch without network
+ */
+
+import type { Character, Episode, PaginatedResponse } from './rickAndMorty';
+
+const BASE_URL = 'https://rickandmortyapi.com/api';
+
+export const characters: Character[] = [1, 2].map((id) => ({
+  id,
+  name: id === 1 ? 'Rick Sanchez' : 'Morty Smith',
+  status: 'Alive',
+  species: 'Human',
+  type: '',
+  gender: 'Male',
+  origin: { name: 'Earth (C-137)', url: '' },
+  location: { name: 'Citadel of Ricks', url: '' },
+  image: `${BASE_URL}/character/avatar/${id}.jpeg`,
+  episode: [`${BASE_URL}/episode/1`],
+  url: `${BASE_URL}/character/${id}`,
+  created: '2017-11-04T18:48:46.250Z',
+}));
+
+export const episodes: Episode[] = [
+  {
+    id: 1,
+    name: 'Pilot',
+    air_date: 'December 2, 2013',
+    episode: 'S01E01',
+    characters: characters.map((character) => character.url),
+    url: `${BASE_URL}/episode/1`,
+    created: '2017-11-10T12:56:33.798Z',
+  },
+];
+
+const paginated = <T>(results: T[]): PaginatedResponse<T> => ({
+  info: { count: results.length, pages: 1, next: null, prev: null },
+  results,
+});
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Ответы на запросы к API по списку персонажей и эпизодов выше. ids через запятую - массив
+export const fakeApi: typeof fetch = async (input) => {
+  const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  if (!href.startsWith(BASE_URL)) {
+    return json(404, { error: `Unexpected request ${href}` });
+  }
+  const { pathname } = new URL(href);
+  const [, , resource, ids] = pathname.split('/');
+  const items: Array<Character | Episode> | undefined =
+    resource === 'character' ? characters : resource === 'episode' ? episodes : undefined;
+
+  if (!items) return json(404, { error: 'There is nothing here' });
+  if (!ids) return json(200, paginated(items));
+  if (ids.includes(',')) {
+    return json(200, ids.split(',').map(Number).flatMap((id) => items.filter((item) => item.id === id)));
+  }
+  const item = items.find((item) => item.id === Number(ids));
+  return item ? json(200, item) : json(404, { error: `${resource} not found` });
+};
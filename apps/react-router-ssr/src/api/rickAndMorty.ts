@@ -64,9 +64,11 @@ export async function getCharacters(page = 1): Promise<PaginatedResponse<Charact
   return res.json();
 }
 
-export async function getCharacter(id: number): Promise<Character> {
+// null - персонажа нет (404), остальные ошибки API бросаются
+export async function getCharacter(id: number): Promise<Character | null> {
   const res = await fetch(`${BASE_URL}/character/${id}`);
-  if (!res.ok) throw new Error(`Character ${id} not found`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Failed to fetch character ${id}`);
   return res.json();
 }
 
@@ -114,9 +116,11 @@ export async function getEpisodes(page = 1): Promise<PaginatedResponse<Episode>>
   return res.json();
 }
 
-export async function getEpisode(id: number): Promise<Episode> {
+// null - эпизода нет (404), остальные ошибки API бросаются
+export async function getEpisode(id: number): Promise<Episode | null> {
   const res = await fetch(`${BASE_URL}/episode/${id}`);
-  if (!res.ok) throw new Error(`Episode ${id} not found`);
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`Failed to fetch episode ${id}`);
   return res.json();
 }
 
@@ -3,7 +3,7 @@
  */
 
 import { createRoot } from 'react-dom/client';
-import { app } from './app';
+import { app } from './App';
 import './index.css';
 
 // Определяем режим продакшн
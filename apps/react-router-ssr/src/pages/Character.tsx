@@ -1,4 +1,4 @@
-import { characterPage } from "../routes"
+import { characterPage, charactersPage } from "../routes"
 import { navigateTo } from "@monorepo/contract-page-2"
 
 export const CharacterPage = characterPage.defineView(({ pageContext }) => {
@@ -14,7 +14,7 @@ export const CharacterPage = characterPage.defineView(({ pageContext }) => {
     const { character } = pageContext.data;
     return (
       <div>
-        <button onClick={() => navigateTo('/')} style={{ marginBottom: '16px' }}>
+        <button onClick={() => navigateTo(charactersPage)} style={{ marginBottom: '16px' }}>
           ← Back to Characters
         </button>
         
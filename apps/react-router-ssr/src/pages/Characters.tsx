@@ -0,0 +1,47 @@
+import { charactersPage, characterPage } from "../routes"
+import { Link, navigateTo } from "@monorepo/contract-page-2"
+
+export const CharactersPage = charactersPage.defineView(({ pageContext, search }) => {
+  if (!pageContext) {
+    return <div>Loading...</div>;
+  }
+  if (pageContext.type === "ok" && pageContext.data?.characters) {
+    return (
+      <div>
+        <h1>Rick and Morty Characters</h1>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '16px' }}>
+          {pageContext.data.characters.map((char) => (
+            <Link
+              key={char.id}
+              to={characterPage}
+              params={{ id: char.id }}
+              prefetch="viewport"
+              style={{ border: '1px solid #ccc', borderRadius: '8px', padding: '12px', color: 'inherit', textDecoration: 'none' }}
+            >
+              <img src={char.image} alt={char.name} style={{ width: '100%', borderRadius: '4px' }} />
+              <h3 style={{ margin: '8px 0 4px' }}>{char.name}</h3>
+              <p style={{ margin: 0, color: '#666' }}>{char.status} - {char.species}</p>
+            </Link>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+          <button
+            disabled={!pageContext.data.info.prev}
+            onClick={() => navigateTo(charactersPage, {}, { page: search.page - 1 })}
+          >
+            ← Prev
+          </button>
+          <span>Page {search.page} of {pageContext.data.info.pages}</span>
+          <button
+            disabled={!pageContext.data.info.next}
+            onClick={() => navigateTo(charactersPage, {}, { page: search.page + 1 })}
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+    );
+  }
+  return null;
+});
@@ -0,0 +1,30 @@
+import { charactersLayout, characterPage } from "../routes"
+import { Link, type LinkState } from "@monorepo/contract-page-2"
+
+export const CharactersLayout = charactersLayout.defineView(({ pageContext, children }) => {
+  if (pageContext.type !== "ok" || !pageContext.data) {
+    return children;
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: '24px' }}>
+      <aside style={{ width: '220px', flexShrink: 0 }}>
+        <h3 style={{ marginTop: 0 }}>Characters ({pageContext.data.total})</h3>
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
+          {pageContext.data.featured.map((char) => (
+            <li key={char.id} style={{ marginBottom: '8px' }}>
+              <Link
+                to={characterPage}
+                params={{ id: char.id }}
+                prefetch="hover"
+              >
+                {({ isActive }: LinkState) => (isActive ? <strong>{char.name}</strong> : char.name)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <section style={{ flex: 1 }}>{children}</section>
+    </div>
+  );
+});
@@ -1,5 +1,26 @@
-import { episodePage } from "../routes"
-import { navigateTo } from "@monorepo/contract-page-2"
+import { Suspense } from "react"
+import { episodePage, episodesPage, characterPage } from "../routes"
+import { Link, navigateTo, useDeferred } from "@monorepo/contract-page-2"
+
+// Данные берутся из контекста страницы, без передачи через props
+const Cast = () => {
+  const pageContext = episodePage.usePageContext();
+  if (pageContext.type !== "ok" || !pageContext.data?.cast) {
+    return null;
+  }
+  const characters = useDeferred(pageContext.data.cast);
+  return (
+    <ul>
+      {characters.map((character) => (
+        <li key={character.id}>
+          <Link to={characterPage} params={{ id: character.id }} prefetch="hover">
+            {character.name}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
 
 export const EpisodePage = episodePage.defineView(({ pageContext }) => {
   if (!pageContext) {
@@ -14,7 +35,7 @@ export const EpisodePage = episodePage.defineView(({ pageContext }) => {
     const { episode } = pageContext.data;
     return (
       <div>
-        <button onClick={() => navigateTo('/episodes')} style={{ marginBottom: '16px' }}>
+        <button onClick={() => navigateTo(episodesPage)} style={{ marginBottom: '16px' }}>
           ← Back to Episodes
         </button>
         
@@ -22,6 +43,9 @@ export const EpisodePage = episodePage.defineView(({ pageContext }) => {
         <p><strong>Episode:</strong> {episode.episode}</p>
         <p><strong>Air Date:</strong> {episode.air_date}</p>
         <p><strong>Characters:</strong> {episode.characters.length}</p>
+        <Suspense fallback={<p>Loading characters...</p>}>
+          <Cast />
+        </Suspense>
       </div>
     );
   }
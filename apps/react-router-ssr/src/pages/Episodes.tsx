@@ -1,7 +1,7 @@
-import { episodesPage } from "../routes"
-import { navigateTo } from "@monorepo/contract-page-2"
+import { episodesPage, episodePage } from "../routes"
+import { Link, navigateTo } from "@monorepo/contract-page-2"
 
-export const EpisodesPage = episodesPage.defineView(({ pageContext }) => {
+export const EpisodesPage = episodesPage.defineView(({ pageContext, search }) => {
   if (!pageContext) {
     return <div>Loading...</div>;
   }
@@ -14,18 +14,21 @@ export const EpisodesPage = episodesPage.defineView(({ pageContext }) => {
         
         <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
           {pageContext.data.episodes.map((ep) => (
-            <div 
-              key={ep.id} 
-              style={{ 
-                border: '1px solid #ccc', 
-                borderRadius: '8px', 
-                padding: '12px', 
-                cursor: 'pointer',
+            <Link
+              key={ep.id}
+              to={episodePage}
+              params={{ id: ep.id }}
+              prefetch="viewport"
+              style={{
+                border: '1px solid #ccc',
+                borderRadius: '8px',
+                padding: '12px',
+                color: 'inherit',
+                textDecoration: 'none',
                 display: 'flex',
                 justifyContent: 'space-between',
                 alignItems: 'center'
               }}
-              onClick={() => navigateTo(`/episode/${ep.id}`)}
             >
               <div>
                 <strong>{ep.episode}</strong> - {ep.name}
@@ -33,9 +36,25 @@ export const EpisodesPage = episodesPage.defineView(({ pageContext }) => {
               <div style={{ color: '#666' }}>
                 {ep.air_date}
               </div>
-            </div>
+            </Link>
           ))}
         </div>
+
+        <div style={{ display: 'flex', gap: '8px', marginTop: '16px' }}>
+          <button
+            disabled={!pageContext.data.info.prev}
+            onClick={() => navigateTo(episodesPage, {}, { page: search.page - 1 })}
+          >
+            ← Prev
+          </button>
+          <span>Page {search.page} of {pageContext.data.info.pages}</span>
+          <button
+            disabled={!pageContext.data.info.next}
+            onClick={() => navigateTo(episodesPage, {}, { page: search.page + 1 })}
+          >
+            Next →
+          </button>
+        </div>
       </div>
     );
   }
@@ -43,3 +62,10 @@ export const EpisodesPage = episodesPage.defineView(({ pageContext }) => {
   return null;
 });
 
+export const EpisodesErrorView = episodesPage.defineErrorView(({ error }) => (
+  <div>
+    <h1>Episodes are unavailable</h1>
+    <p>{error.status} - {error.message}</p>
+    <button onClick={() => window.location.reload()}>Retry</button>
+  </div>
+));
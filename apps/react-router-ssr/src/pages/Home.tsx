@@ -1,5 +1,5 @@
-import { homePage } from "../routes"
-import { navigateTo } from "@monorepo/contract-page-2"
+import { homePage, characterPage } from "../routes"
+import { Link } from "@monorepo/contract-page-2"
 
 export const HomePage = homePage.defineView(({ pageContext }) => {
   if (!pageContext) {
@@ -12,15 +12,17 @@ export const HomePage = homePage.defineView(({ pageContext }) => {
         <p>Total: {pageContext.data.info.count}</p>
         <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '16px' }}>
           {pageContext.data.characters.map((char) => (
-            <div 
-              key={char.id} 
-              style={{ border: '1px solid #ccc', borderRadius: '8px', padding: '12px', cursor: 'pointer' }}
-              onClick={() => navigateTo(`/character/${char.id}`)}
+            <Link
+              key={char.id}
+              to={characterPage}
+              params={{ id: char.id }}
+              prefetch="viewport"
+              style={{ border: '1px solid #ccc', borderRadius: '8px', padding: '12px', color: 'inherit', textDecoration: 'none' }}
             >
               <img src={char.image} alt={char.name} style={{ width: '100%', borderRadius: '4px' }} />
               <h3 style={{ margin: '8px 0 4px' }}>{char.name}</h3>
               <p style={{ margin: 0, color: '#666' }}>{char.status} - {char.species}</p>
-            </div>
+            </Link>
           ))}
         </div>
       </div>
@@ -2,7 +2,9 @@
  * Регистрация всех страниц — импорт этого файла привязывает компоненты к роутам
  */
 export { HomePage } from './Home';
+export { CharactersLayout } from './CharactersLayout';
+export { CharactersPage } from './Characters';
 export { CharacterPage } from './Character';
-export { EpisodesPage } from './Episodes';
+export { EpisodesPage, EpisodesErrorView } from './Episodes';
 export { EpisodePage } from './Episode';
 
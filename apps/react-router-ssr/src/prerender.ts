@@ -0,0 +1,42 @@
+/**
+ * Prerender: статические страницы и их данные в dist/client
+ * Результат раздается статическим хостингом, страницы, которых нет среди отрендеренных,
+ * загружают данные с сервера (API_ORIGIN)
+ */
+
+import { renderToString } from 'react-dom/server';
+import { app } from './App';
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+
+const outDir = join(process.cwd(), 'dist/client');
+
+// Bundle клиента из сборки vite (dist/client/assets/main-*.js)
+async function getClientEntry(): Promise<string> {
+  try {
+    const files = await readdir(join(outDir, 'assets'));
+    const jsFile = files.find((f) => f.endsWith('.js') && f.startsWith('main-'));
+    if (jsFile) {
+      return `/assets/${jsFile}`;
+    }
+  } catch (e) {
+    console.warn('Could not find client bundle:', e);
+  }
+  return '/assets/main.js';
+}
+
+(async () => {
+  const { pages } = await app.prerender({
+    outDir,
+    renderToString,
+    clientEntry: await getClientEntry(),
+    fallback: process.env.API_ORIGIN || '',
+  });
+
+  for (const page of pages) {
+    console.log(`${page.status} ${page.url}`);
+  }
+  if (pages.some((page) => page.status >= 500)) {
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,70 @@
+// Контракт демо-приложения без HTTP-сервера: данные страниц (resolvePage) и SSR (renderPage).
+// API Rick and Morty подменяется fakeApi
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderToString } from 'react-dom/server';
+import { renderPage, resolvePage } from '@monorepo/contract-page-2/testing';
+import { app } from './App';
+import { characterPage, contractWithCtx, episodePage, legacyCharacterPage } from './routes';
+import { fakeApi } from './api/fakeRickAndMorty';
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fakeApi);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('resolvePage', () => {
+  it('loads a character', async () => {
+    const { status, result, layouts } = await resolvePage(contractWithCtx, '/characters/1', { page: characterPage });
+    expect(status).toBe(200);
+    expect(result.type === 'ok' && result.data.character.name).toBe('Rick Sanchez');
+    expect(Object.values(layouts)).toHaveLength(1);
+  });
+
+  it('returns not-found for an unknown character', async () => {
+    const { status, result } = await resolvePage(contractWithCtx, '/characters/999', { page: characterPage });
+    expect(status).toBe(404);
+    expect(result.type).toBe('not-found');
+  });
+
+  it('returns 502 when the API fails', async () => {
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 500 }));
+    const { status, result } = await resolvePage(contractWithCtx, '/episode/1', { page: episodePage });
+    expect(status).toBe(502);
+    expect(result.type).toBe('error');
+  });
+
+  it('redirects old character links', async () => {
+    const { status, result } = await resolvePage(contractWithCtx, '/character/2', { page: legacyCharacterPage });
+    expect(status).toBe(301);
+    expect(result).toMatchObject({ type: 'redirect', to: '/characters/2' });
+  });
+
+  it('issues a session cookie to a new visitor', async () => {
+    const request = new Request('http://localhost/characters/1', { headers: { 'Accept-Language': 'ru-RU,ru;q=0.9' } });
+    const { appContext, response } = await resolvePage(contractWithCtx, '/characters/1', { request });
+    expect(appContext?.locale).toBe('ru-RU');
+    expect(appContext?.userId).toMatch(/^user-[0-9a-f]{6}$/);
+    expect(response?.headers.getSetCookie()[0]).toMatch(/^session=[0-9a-f-]{36};.*HttpOnly/);
+    // id сессии (HttpOnly cookie) не попадает в данные для клиента
+    const session = response?.headers.getSetCookie()[0]?.split(/[=;]/)[1];
+    expect(JSON.stringify(appContext)).not.toContain(session);
+  });
+});
+
+describe('renderPage', () => {
+  it('renders the characters list', async () => {
+    const page = await renderPage(app, '/characters', { renderToString });
+    expect(page.status).toBe(200);
+    expect('html' in page && page.html).toContain('Rick and Morty Characters');
+    expect('html' in page && page.html).toContain('Morty Smith');
+  });
+
+  it('redirects from the home page', async () => {
+    const page = await renderPage(app, '/', { renderToString });
+    expect(page).toMatchObject({ status: 302, redirect: '/characters' });
+  });
+});
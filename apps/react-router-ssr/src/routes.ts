@@ -1,5 +1,29 @@
-import { initContract } from "@monorepo/contract-page-2";
-import { getCharacters, getCharacter, getEpisodes, getEpisode } from "./api/rickAndMorty";
+import { initContract, defer, PageError } from "@monorepo/contract-page-2";
+import { getCharacters, getCharacter, getCharactersByIds, getEpisodes, getEpisode, type Character } from "./api/rickAndMorty";
+
+// Схема params для страниц с числовым :id — невалидный id сразу дает not-found
+const idParams = (params: { id: string }) => {
+  const id = Number(params.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw new Error(`Invalid id "${params.id}"`);
+  }
+  return { id };
+};
+
+// Сбой API - ошибка 502, а не not-found: кеш страниц хранит not-found, но не ошибки
+const fromApi = async <T>(load: () => Promise<T>): Promise<T> => {
+  try {
+    return await load();
+  } catch {
+    throw new PageError(502, 'Rick and Morty API is unavailable');
+  }
+};
+
+// Моковый id пользователя: хеш сессии, по которому сессию не восстановить
+const userIdOf = async (sessionId: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(sessionId));
+  return Array.from(new Uint8Array(digest).slice(0, 3), (byte) => byte.toString(16).padStart(2, '0')).join('');
+};
 
 // Контракт
 export const contractWithCtx = initContract({
@@ -8,19 +32,23 @@ export const contractWithCtx = initContract({
     // Имитируем задержку сети
     await new Promise(resolve => setTimeout(resolve, 50));
     
-    // В реальности здесь был бы запрос к серверу:
-    // const response = await fetch(`/api/user/context?url=${ctx.url}`);
-    // const data = await response.json();
+    // Сессия из cookie. Новую сессию выдает сервер (на клиенте runtime.response нет).
+    // appContext вычисляется на сервере и приходит клиенту вместе с данными страницы
+    // (window.__APP_CTX__, /api/page), поэтому сам id сессии (HttpOnly cookie) в него не попадает
+    let sessionId = ctx.cookies?.session;
+    if (!sessionId && ctx.response) {
+      sessionId = crypto.randomUUID();
+      ctx.response.setCookie('session', sessionId, { maxAge: 60 * 60 * 24 * 30 });
+    }
     
-    // Моковые данные, зависящие от URL
-    const userId = ctx.url.includes('/character/') ? 'user-123-character' : 
-                   ctx.url.includes('/episode/') ? 'user-123-episode' : 
-                   'user-123-default';
+    // В реальности здесь был бы запрос к серверу с cookie сессии:
+    // const response = await fetch(`${API}/user/context`, { headers: { cookie: `session=${sessionId}` } });
+    // const data = await response.json();
     
     return { 
-      userId,
-      sessionId: `session-${Date.now()}`,
+      userId: sessionId ? `user-${await userIdOf(sessionId)}` : 'guest',
       url: ctx.url,
+      locale: ctx.locale || 'en',
       // В реальности это могли бы быть данные пользователя с сервера:
       // permissions: data.permissions,
       // theme: data.theme,
@@ -50,33 +78,103 @@ export const homePage = contractWithCtx.definePage({
   },
 });
 
+// Раздел персонажей — layout с сайдбаром вокруг списка и карточки персонажа
+export const charactersLayout = contractWithCtx.defineLayout({
+  path: '/characters',
+  page: async () => {
+    const data = await getCharacters(1);
+    return {
+      type: 'ok',
+      data: {
+        total: data.info.count,
+        featured: data.results.slice(0, 10),
+      }
+    }
+  },
+});
+
+// Список персонажей
+export const charactersPage = contractWithCtx.definePage({
+  parent: charactersLayout,
+  path: '/characters',
+  search: {
+    page: (value) => Math.max(1, Number(value) || 1),
+  },
+  page: async ({ search }) => {
+    const data = await getCharacters(search.page);
+    return {
+      type: 'ok',
+      data: {
+        characters: data.results,
+        info: data.info,
+      },
+      seo: { title: search.page > 1 ? `Characters — page ${search.page}` : 'Characters' },
+    }
+  },
+});
+
 // Персонаж
 export const characterPage = contractWithCtx.definePage({
-  path: '/character/:id',
+  parent: charactersLayout,
+  path: '/characters/:id',
+  params: idParams,
+  // Данные персонажей почти не меняются - не ходим в API на каждый запрос
+  // Результат не зависит от пользователя - ключ без appContext, один на всех
+  cache: {
+    ttl: 60,
+    staleWhileRevalidate: 600,
+    key: ({ params }) => String(params.id),
+    tags: ({ params }) => ['characters', `character:${params.id}`],
+  },
   page: async ({ params }) => {
-    try {
-      const character = await getCharacter(Number(params.id));
-      return {
-        type: 'ok',
-        data: { character },
-      }
-    } catch {
+    const character = await fromApi(() => getCharacter(params.id));
+    if (!character) {
       return { type: "not-found", data: { message: `Character ${params.id} not found` } }
     }
+    return {
+      type: 'ok',
+      data: { character },
+      seo: {
+        title: character.name,
+        description: `${character.name} — ${character.species}, ${character.status}. Origin: ${character.origin.name}`,
+        openGraph: { type: 'profile', image: character.image },
+        twitter: { card: 'summary' },
+        jsonLd: {
+          '@context': 'https://schema.org',
+          '@type': 'Person',
+          name: character.name,
+          image: character.image,
+        },
+      },
+    }
   },
 });
 
+// Старый адрес персонажа (до раздела /characters): ссылки и закладки ведут на новый
+export const legacyCharacterPage = contractWithCtx.definePage({
+  path: '/character/:id',
+  page: async ({ params }) => ({
+    type: 'redirect',
+    to: `/characters/${encodeURIComponent(params.id)}`,
+    status: 301,
+  }),
+});
+
 // Список эпизодов
 export const episodesPage = contractWithCtx.definePage({
   path: '/episodes',
-  page: async () => {
-    const data = await getEpisodes(1);
+  search: {
+    page: (value) => Math.max(1, Number(value) || 1),
+  },
+  page: async ({ search }) => {
+    const data = await getEpisodes(search.page);
     return {
       type: 'ok',
       data: {
         episodes: data.results,
         info: data.info,
-      }
+      },
+      seo: { title: search.page > 1 ? `Episodes — page ${search.page}` : 'Episodes' },
     }
   },
 });
@@ -84,16 +182,33 @@ export const episodesPage = contractWithCtx.definePage({
 // Эпизод
 export const episodePage = contractWithCtx.definePage({
   path: '/episode/:id',
+  params: idParams,
+  cache: { ttl: 60, staleWhileRevalidate: 600, key: ({ params }) => String(params.id), tags: ['episodes'] },
+  // prerender: эпизоды первой страницы списка, остальные отдает сервер
+  getStaticPaths: async () => (await getEpisodes(1)).results.map((episode) => ({ id: episode.id })),
   page: async ({ params }) => {
-    try {
-      const episode = await getEpisode(Number(params.id));
-      return {
-        type: 'ok',
-        data: { episode },
-      }
-    } catch {
+    const episode = await fromApi(() => getEpisode(params.id));
+    if (!episode) {
       return { type: "not-found", data: { message: `Episode ${params.id} not found` } }
     }
+    // Список персонажей грузится отдельным запросом - страница не ждет его
+    const characterIds = episode.characters.map((url) => Number(url.split('/').pop()));
+    const cast = getCharactersByIds(characterIds).then((result) => ([] as Character[]).concat(result));
+    return {
+      type: 'ok',
+      data: { episode, cast: defer(cast) },
+      seo: {
+        title: `${episode.episode} — ${episode.name}`,
+        description: `${episode.name} (${episode.episode}), aired ${episode.air_date}`,
+        jsonLd: {
+          '@context': 'https://schema.org',
+          '@type': 'TVEpisode',
+          name: episode.name,
+          episodeNumber: episode.episode,
+          datePublished: episode.air_date,
+        },
+      },
+    }
   },
 });
 
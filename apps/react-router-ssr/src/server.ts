@@ -2,8 +2,8 @@
  * Server entry point (Development & Production)
  */
 
-import { renderToString } from 'react-dom/server';
-import { app } from './app';
+import { renderToString, renderToPipeableStream } from 'react-dom/server';
+import { app } from './App';
 import { readdir } from 'fs/promises';
 import { join } from 'path';
 import { fileURLToPath } from 'url';
@@ -53,6 +53,8 @@ async function getProdClientEntry(): Promise<string> {
 app.runServer({
     port: Number(process.env.PORT) || 3000,
   renderToString,
+    // Потоковый SSR: shell отдается сразу, отложенные данные (defer) дописываются в поток
+    renderToPipeableStream,
     clientEntry: {
       dev: '/src/client.tsx',
       prod: finalProdEntry,
@@ -8,6 +8,8 @@ export default defineConfig({
   ],
   resolve: {
     alias: {
+      // Точки входа пакетов (exports) указывают на файлы в src
+      '@monorepo/contract-page-2/testing': path.resolve(__dirname, '../../packages/contract-page-2/src/testing.ts'),
       '@monorepo': path.resolve(__dirname, '../../packages')
     }
   },
@@ -0,0 +1,45 @@
+// runAction на клиенте: ответы обработчика actions и ответы, которые пришли не от него
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActionError, runAction } from './actions';
+import { defaultSerializer } from './serializer';
+
+const respond = (response: Response) => vi.stubGlobal('fetch', vi.fn(async () => response));
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(defaultSerializer.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: new URL('http://app.test/items'), dispatchEvent: () => true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('runAction', () => {
+  it('returns output in the app serializer format', async () => {
+    respond(jsonResponse(200, { output: { at: new Date(0) } }));
+    const output = (await runAction('save', {}, { revalidate: false })) as { at: Date };
+    expect(output.at).toEqual(new Date(0));
+  });
+
+  it('throws ActionError from the error response', async () => {
+    const issues = [{ message: 'Required', path: ['title'] }];
+    respond(jsonResponse(400, { error: { type: 'error', status: 400, message: 'Invalid action input', issues } }));
+    const error = await runAction('save', {}).catch((e) => e);
+    expect(error).toBeInstanceOf(ActionError);
+    expect(error).toMatchObject({ status: 400, message: 'Invalid action input', issues });
+  });
+
+  it('throws ActionError with the response status for non-JSON responses', async () => {
+    respond(new Response('Internal Server Error', { status: 500 }));
+    await expect(runAction('save', {})).rejects.toMatchObject({ name: 'ActionError', status: 500 });
+
+    respond(new Response('<html>Bad Gateway</html>', { status: 502, headers: { 'Content-Type': 'text/html' } }));
+    await expect(runAction('save', {})).rejects.toMatchObject({ name: 'ActionError', status: 502 });
+
+    respond(new Response('not json', { status: 200, headers: { 'Content-Type': 'application/json' } }));
+    await expect(runAction('save', {})).rejects.toMatchObject({ name: 'ActionError', status: 502 });
+  });
+});
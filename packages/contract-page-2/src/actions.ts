@@ -0,0 +1,123 @@
+// Server actions (мутации)
+// defineAction описывает серверную функцию с валидацией input. runServer регистрирует ее как
+// POST /api/action/:name, view вызывают ее через action.run(input). После успешного вызова
+// данные текущей страницы (и при необходимости appContext) перезагружаются без перезагрузки документа
+
+import type { RuntimeContext } from './index';
+import type { StandardSchemaIssue, StandardSchemaV1 } from './params';
+import { PageError, type PageErrorResult } from './errors';
+import { beginSubmission } from './router';
+import { getSerializer } from './serializer';
+
+// =======================
+// Типы
+// Схема input: функция (бросает исключение, если input невалиден) или Standard Schema.
+// Input - то, что передается в run() на клиенте, ValidInput - то, что получает handler
+export type ActionInputSchema<Input, ValidInput> =
+  | ((input: Input) => ValidInput)
+  | StandardSchemaV1<Input, ValidInput>;
+
+export type ActionArgs<AppCtx, ValidInput, HasAppCtx extends boolean> = [HasAppCtx] extends [true]
+  ? { input: ValidInput; appContext: AppCtx; runtime: RuntimeContext }
+  : { input: ValidInput; runtime: RuntimeContext };
+
+export interface RunActionOptions {
+  // Перезагрузить данные текущей страницы и ее layout'ов (по умолчанию true)
+  revalidate?: boolean;
+  // Перезагрузить appContext (по умолчанию - как revalidate: он приходит в том же ответе /api/page,
+  // что и данные страницы)
+  revalidateAppContext?: boolean;
+}
+
+export interface Action<Name extends string, Input, Output> {
+  name: Name;
+  // Вызов action с клиента. Ошибка сервера приходит как ActionError
+  run: (...args: [Input] extends [void] ? [input?: Input, options?: RunActionOptions] : [input: Input, options?: RunActionOptions]) => Promise<Output>;
+}
+
+// Ошибка вызова action: status и message из ответа сервера, issues - если input не прошел схему
+export class ActionError extends PageError {
+  readonly issues: StandardSchemaIssue[] | undefined;
+
+  constructor(status: number, message: string, issues?: StandardSchemaIssue[]) {
+    super(status, message);
+    this.name = 'ActionError';
+    this.issues = issues;
+  }
+}
+
+// Ответ POST /api/action/:name
+export type ActionResponse =
+  | { output: unknown }
+  | { error: PageErrorResult & { issues?: StandardSchemaIssue[] } };
+
+// =======================
+// Перезагрузка данных текущей страницы (роутер и AppComponent подписаны на это событие)
+export const REVALIDATE_EVENT = 'contract-page:revalidate';
+
+export interface RevalidateOptions {
+  // Данные страницы и ее layout'ов (по умолчанию true)
+  page?: boolean;
+  // appContext (по умолчанию false). Загружается вместе с данными текущей страницы,
+  // поэтому они перезагружаются и при page: false
+  appContext?: boolean;
+}
+
+export function revalidate(options: RevalidateOptions = {}) {
+  if (typeof window === 'undefined') return;
+  window.dispatchEvent(new CustomEvent(REVALIDATE_EVENT, { detail: options }));
+}
+
+// appContext устарел (вход/выход пользователя, смена настроек): загружается заново
+// вместе с данными текущей страницы
+export function invalidateAppContext() {
+  revalidate({ appContext: true });
+}
+
+// =======================
+// Клиент
+// Ответ обработчика actions - JSON в формате сериализатора приложения (Date, Map и т.д. в output
+// сохраняются). Другие ответы (текстовый 500, страница ошибки прокси) - ActionError со статусом ответа
+async function readActionResponse(response: Response): Promise<ActionResponse> {
+  const contentType = response.headers.get('Content-Type')?.split(';')[0]?.trim().toLowerCase();
+  if (contentType === 'application/json') {
+    try {
+      const body = getSerializer().parse(await response.text()) as ActionResponse;
+      if (body !== null && typeof body === 'object' && (response.ok ? 'output' in body : 'error' in body)) {
+        return body;
+      }
+    } catch {
+      // Не JSON, несмотря на Content-Type
+    }
+  }
+  throw new ActionError(response.ok ? 502 : response.status, `Unexpected action response (${response.status})`);
+}
+
+export async function runAction(name: string, input: unknown, options: RunActionOptions = {}) {
+  if (typeof window === 'undefined') {
+    throw new Error(`Action "${name}" can only be run on the client`);
+  }
+
+  const endSubmission = beginSubmission(name);
+  let body: ActionResponse;
+  try {
+    const response = await fetch(`/api/action/${encodeURIComponent(name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ input, url: window.location.pathname + window.location.search }),
+    });
+    body = await readActionResponse(response);
+  } finally {
+    endSubmission();
+  }
+
+  if ('error' in body) {
+    throw new ActionError(body.error.status, body.error.message, body.error.issues);
+  }
+
+  const { revalidate: revalidatePage = true, revalidateAppContext = revalidatePage } = options;
+  if (revalidatePage || revalidateAppContext) {
+    revalidate({ page: revalidatePage, appContext: revalidateAppContext });
+  }
+  return body.output;
+}
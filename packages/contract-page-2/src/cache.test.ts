@@ -0,0 +1,129 @@
+// Кеш page(): свежий и устаревший (staleWhileRevalidate) результат, истечение, инвалидация
+// и ключ по умолчанию с appContext
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCacheStore, createPageCache, type CachedLoadOptions } from './cache';
+import { initContract } from './index';
+import { resolvePage } from './testing';
+
+const options: CachedLoadOptions = {
+  ttl: 10,
+  staleWhileRevalidate: 20,
+  path: '/items/1',
+  tags: ['items'],
+  shouldCache: (value) => value !== 'error',
+  onError: () => {},
+};
+
+// Загрузчик, возвращающий номер вызова
+function createLoader() {
+  let calls = 0;
+  const loader = vi.fn(async () => `value-${++calls}`);
+  return loader;
+}
+
+describe('createPageCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves a fresh result without calling page()', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = createLoader();
+    expect(await cache.load('key', options, loader)).toBe('value-1');
+    vi.advanceTimersByTime(9_000);
+    expect(await cache.load('key', options, loader)).toBe('value-1');
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('serves a stale result and refreshes it in the background', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = createLoader();
+    await cache.load('key', options, loader);
+    vi.advanceTimersByTime(15_000);
+    expect(await cache.load('key', options, loader)).toBe('value-1');
+    expect(loader).toHaveBeenCalledTimes(2);
+    await vi.waitFor(async () => expect(await cache.load('key', options, loader)).toBe('value-2'));
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('reloads an expired result', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = createLoader();
+    await cache.load('key', options, loader);
+    vi.advanceTimersByTime(30_000);
+    expect(await cache.load('key', options, loader)).toBe('value-2');
+  });
+
+  it('shares one load between concurrent requests', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = createLoader();
+    const results = await Promise.all([cache.load('key', options, loader), cache.load('key', options, loader)]);
+    expect(results).toEqual(['value-1', 'value-1']);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache rejected results', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = vi.fn(async () => 'error');
+    await cache.load('key', options, loader);
+    await cache.load('key', options, loader);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('invalidates by tag and by path', async () => {
+    const cache = createPageCache(createMemoryCacheStore());
+    const loader = createLoader();
+    await cache.load('key', options, loader);
+    await cache.invalidate({ tags: ['other'] });
+    expect(await cache.load('key', options, loader)).toBe('value-1');
+    await cache.invalidate({ tags: ['items'] });
+    expect(await cache.load('key', options, loader)).toBe('value-2');
+    await cache.invalidate({ path: '/items/1' });
+    expect(await cache.load('key', options, loader)).toBe('value-3');
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = createPageCache(createMemoryCacheStore({ maxEntries: 2 }));
+    const loader = createLoader();
+    await cache.load('a', options, loader);
+    await cache.load('b', options, loader);
+    await cache.load('a', options, loader);
+    await cache.load('c', options, loader);
+    expect(await cache.load('a', options, loader)).toBe('value-1');
+    expect(await cache.load('b', options, loader)).toBe('value-4');
+  });
+});
+
+describe('page cache key', () => {
+  // appContext - пользователь из cookie
+  function createContract() {
+    const contract = initContract({ appContext: async (runtime) => ({ user: runtime.cookies?.user ?? 'guest' }) });
+    const page = vi.fn(async ({ appContext }: { appContext: { user: string } }) => ({
+      type: 'ok' as const,
+      data: { greeting: `Hello, ${appContext.user}` },
+    }));
+    const profile = contract.definePage({ path: '/profile', cache: { ttl: 60 }, page });
+    return { contract, profile, page };
+  }
+
+  const requestAs = (user: string) => new Request('http://app.test/profile', { headers: { Cookie: `user=${user}` } });
+
+  it('includes appContext by default', async () => {
+    const { contract, profile, page } = createContract();
+    const [alice, bob] = await Promise.all([
+      resolvePage(contract, '/profile', { page: profile, request: requestAs('alice') }),
+      resolvePage(contract, '/profile', { page: profile, request: requestAs('bob') }),
+    ]);
+    expect(alice.result).toMatchObject({ data: { greeting: 'Hello, alice' } });
+    expect(bob.result).toMatchObject({ data: { greeting: 'Hello, bob' } });
+
+    const again = await resolvePage(contract, '/profile', { page: profile, request: requestAs('alice') });
+    expect(again.result).toMatchObject({ data: { greeting: 'Hello, alice' } });
+    expect(page).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,161 @@
+// Серверный кеш результатов page()
+// Страница включает кеш опцией cache: { ttl, staleWhileRevalidate, key, tags }.
+// Свежий результат отдается из кеша, устаревший (в окне staleWhileRevalidate) отдается сразу
+// и обновляется в фоне. Хранилище подключаемое: по умолчанию LRU в памяти процесса
+//
+// Результат по ключу общий для всех запросов: page() вызывается с runtime одного из них
+// (параллельные запросы ждут одну загрузку), остальные получают готовый результат.
+// Поэтому у кешируемой страницы:
+//   - все, от чего зависит результат (appContext, cookies, заголовки), входит в ключ.
+//     Ключ по умолчанию - params + search + appContext; свой key заменяет его целиком
+//   - runtime.response (статус, заголовки, cookies) применяется только к запросу, который вызвал
+//     page(). Ответ из кеша их не получает - задавайте их в getAppContext или guards
+
+// =======================
+// Типы
+export interface PageCacheOptions<Args = any> {
+  // Время жизни свежего результата, в секундах
+  ttl: number;
+  // Сколько секунд после ttl результат еще отдается, пока обновляется в фоне
+  staleWhileRevalidate?: number;
+  // Ключ результата (по умолчанию params + search + appContext). Свой ключ должен учитывать все,
+  // от чего зависит результат: без appContext и cookies в ключе данные одного пользователя
+  // получат другие. Изменения runtime.response из page() ответ из кеша не получает
+  key?: (args: Args) => string;
+  // Теги для инвалидации: contract.invalidateCache({ tags: ['characters'] })
+  tags?: string[] | ((args: Args) => string[]);
+}
+
+export interface PageCacheEntry {
+  value: unknown;
+  // pathname запроса, для инвалидации по path
+  path: string;
+  tags: string[];
+  // Временные метки (ms): до freshUntil результат свежий, до staleUntil - устаревший
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export interface CacheInvalidation {
+  tags?: string[];
+  path?: string;
+}
+
+// Хранилище кеша. Методы могут быть асинхронными (Redis и т.п.)
+export interface PageCacheStore {
+  get(key: string): PageCacheEntry | undefined | Promise<PageCacheEntry | undefined>;
+  set(key: string, entry: PageCacheEntry): void | Promise<void>;
+  // Удаление записей с любым из тегов или с указанным path
+  invalidate(target: CacheInvalidation): void | Promise<void>;
+}
+
+// =======================
+// LRU в памяти процесса
+export function createMemoryCacheStore(options: { maxEntries?: number } = {}): PageCacheStore {
+  const { maxEntries = 500 } = options;
+  const entries = new Map<string, PageCacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (Date.now() >= entry.staleUntil) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Переносим запись в конец - она становится самой свежей по использованию
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    invalidate({ tags, path }) {
+      for (const [key, entry] of entries) {
+        if ((path !== undefined && entry.path === path) || (tags && entry.tags.some((tag) => tags.includes(tag)))) {
+          entries.delete(key);
+        }
+      }
+    },
+  };
+}
+
+// =======================
+// Загрузка через кеш
+export interface CachedLoadOptions {
+  ttl: number;
+  staleWhileRevalidate: number;
+  path: string;
+  tags: string[];
+  // Кешируются только подходящие результаты (например, не ошибки)
+  shouldCache: (value: any) => boolean;
+  onError: (error: unknown) => void;
+}
+
+export function createPageCache(store: PageCacheStore) {
+  // Загрузки в процессе: параллельные запросы одного ключа ждут одну загрузку
+  const pending = new Map<string, Promise<any>>();
+
+  const refresh = (key: string, options: CachedLoadOptions, loader: () => Promise<any>) => {
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = (async () => {
+      try {
+        const value = await loader();
+        if (options.shouldCache(value)) {
+          const now = Date.now();
+          try {
+            await store.set(key, {
+              value,
+              path: options.path,
+              tags: options.tags,
+              freshUntil: now + options.ttl * 1000,
+              staleUntil: now + (options.ttl + options.staleWhileRevalidate) * 1000,
+            });
+          } catch (e) {
+            options.onError(e);
+          }
+        }
+        return value;
+      } finally {
+        pending.delete(key);
+      }
+    })();
+    pending.set(key, promise);
+    return promise;
+  };
+
+  return {
+    async load(key: string, options: CachedLoadOptions, loader: () => Promise<any>) {
+      let entry: PageCacheEntry | undefined;
+      try {
+        entry = await store.get(key);
+      } catch (e) {
+        // Недоступное хранилище не должно ломать страницу
+        options.onError(e);
+        return loader();
+      }
+
+      const now = Date.now();
+      if (entry && now < entry.freshUntil) {
+        return entry.value;
+      }
+      if (entry && now < entry.staleUntil) {
+        refresh(key, options, loader).catch(options.onError);
+        return entry.value;
+      }
+      return refresh(key, options, loader);
+    },
+    invalidate(target: CacheInvalidation) {
+      return store.invalidate(target);
+    },
+  };
+}
+
+export type PageCache = ReturnType<typeof createPageCache>;
@@ -0,0 +1,127 @@
+// Отложенные данные страницы
+// page() может вернуть в data промис, обернутый в defer(): страница рендерится сразу,
+// а view читает значение через useDeferred() внутри <Suspense>.
+// При потоковом SSR значения дописываются в поток по мере готовности, в /api/page и
+// renderToString-режиме сервер дожидается их и отдает уже готовыми.
+// defer() поддерживается только в полях верхнего уровня data
+
+import { PageError, normalizeError, type PageErrorResult } from './errors';
+
+// =======================
+// Deferred
+export type DeferredStatus = 'pending' | 'fulfilled' | 'rejected';
+
+export class Deferred<T = unknown> {
+  status: DeferredStatus = 'pending';
+  value: T | undefined;
+  error: unknown;
+  readonly promise: Promise<T>;
+
+  constructor(promise: Promise<T> | T) {
+    this.promise = Promise.resolve(promise).then(
+      (value) => {
+        this.status = 'fulfilled';
+        this.value = value;
+        return value;
+      },
+      (error) => {
+        this.status = 'rejected';
+        this.error = error;
+        throw error;
+      }
+    );
+    // Ошибку получит тот, кто читает значение; здесь она не должна считаться необработанной
+    this.promise.catch(() => {});
+  }
+}
+
+export function defer<T>(promise: Promise<T> | T): Deferred<T> {
+  return new Deferred(promise);
+}
+
+// Значение отложенных данных для view: пока промис не выполнен, компонент приостанавливается
+// (ближайший <Suspense> показывает fallback), ошибка уходит в ближайший error boundary
+export function useDeferred<T>(deferred: Deferred<T>): T {
+  if (deferred.status === 'fulfilled') return deferred.value as T;
+  if (deferred.status === 'rejected') throw deferred.error;
+  throw deferred.promise;
+}
+
+// =======================
+// Сериализация
+// Выполненное значение: { $deferred: { status, value | error } }, ожидаемое в потоке: { $deferred: 'id' }
+export type SettledDeferred =
+  | { status: 'fulfilled'; value: unknown }
+  | { status: 'rejected'; error: PageErrorResult };
+
+// Отложенные поля data результата page()
+export function collectDeferred(result: any): Deferred[] {
+  const data = result?.data;
+  if (!data || typeof data !== 'object') return [];
+  return Object.values(data).filter((value): value is Deferred => value instanceof Deferred);
+}
+
+export async function settleDeferred(results: any[]) {
+  await Promise.all(results.flatMap(collectDeferred).map((deferred) => deferred.promise.catch(() => {})));
+}
+
+export function serializeSettled(deferred: Deferred, isProduction: boolean): SettledDeferred {
+  return deferred.status === 'fulfilled'
+    ? { status: 'fulfilled', value: deferred.value }
+    : { status: 'rejected', error: normalizeError(deferred.error, isProduction) };
+}
+
+// Копия результата, пригодная для JSON. idFor задан - ожидаемые значения заменяются на id в потоке
+export function dehydrateResult(result: any, isProduction: boolean, idFor?: (deferred: Deferred) => string): any {
+  const fields = collectDeferred(result);
+  if (fields.length === 0) return result;
+
+  const data: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(result.data)) {
+    if (!(value instanceof Deferred)) {
+      data[key] = value;
+    } else if (value.status === 'pending' && idFor) {
+      data[key] = { $deferred: idFor(value) };
+    } else {
+      data[key] = { $deferred: serializeSettled(value, isProduction) };
+    }
+  }
+  return { ...result, data };
+}
+
+// Клиент: восстановление Deferred из JSON. streamed - значения, дописанные в поток SSR
+export function hydrateResult(result: any, streamed: Record<string, SettledDeferred> = {}): any {
+  const data = result?.data;
+  if (!data || typeof data !== 'object') return result;
+
+  const hydrated: Record<string, unknown> = { ...data };
+  let changed = false;
+  for (const [key, value] of Object.entries(data)) {
+    const marker = value && typeof value === 'object' ? (value as any).$deferred : undefined;
+    if (marker === undefined) continue;
+
+    const settled: SettledDeferred = (typeof marker === 'string' ? streamed[marker] : marker) || {
+      status: 'rejected',
+      error: { type: 'error', status: 500, message: 'Deferred data was not received' },
+    };
+    hydrated[key] = toDeferred(settled);
+    changed = true;
+  }
+  return changed ? { ...result, data: hydrated } : result;
+}
+
+// Уже выполненный Deferred (статус выставляется сразу, чтобы первый рендер не приостанавливался)
+function toDeferred(settled: SettledDeferred): Deferred {
+  if (settled.status === 'fulfilled') {
+    const deferred = defer(settled.value);
+    deferred.status = 'fulfilled';
+    deferred.value = settled.value;
+    return deferred;
+  }
+
+  const error = new PageError(settled.error.status, settled.error.message);
+  const deferred = defer(Promise.reject(error));
+  deferred.status = 'rejected';
+  deferred.error = error;
+  return deferred;
+}
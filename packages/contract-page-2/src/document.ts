@@ -0,0 +1,72 @@
+// HTML-документ приложения. Свой документ задается в defineApp({ document }) или в опциях
+// runServer / createRequestHandler (заменяет документ defineApp):
+//
+//   document: ({ head, appHtml, scripts, nonce }) => `<!DOCTYPE html>
+//     <html lang="ru" class="theme-dark">
+//       <head>
+//         <meta charset="UTF-8">
+//         <link rel="stylesheet" href="/assets/main.css">
+//         ${head}
+//         ${scripts}
+//         <script nonce="${nonce}" src="https://analytics.example.com/a.js" async></script>
+//       </head>
+//       <body><div id="root">${appHtml}</div></body>
+//     </html>`
+//
+// scripts ставятся до appHtml (в <head>): при потоковом SSR отложенные данные дописываются внутри
+// разметки приложения и используют window.__DEFERRED__ из scripts. Клиент монтируется в #root
+
+// =======================
+// Типы
+export interface DocumentProps {
+  // Теги seo страницы (<title>, <meta>, <link rel="canonical">)
+  head: string;
+  // Разметка приложения
+  appHtml: string;
+  // Inline-скрипт с данными страницы и модуль клиента (с nonce)
+  scripts: string;
+  // nonce запроса (contentSecurityPolicy) для своих inline-скриптов и стилей.
+  // undefined - CSP не задан или документ статический (prerender)
+  nonce: string | undefined;
+}
+
+export type DocumentRender = (props: DocumentProps) => string;
+
+// =======================
+// Документ по умолчанию
+export const defaultDocument: DocumentRender = ({ head, appHtml, scripts }) => `
+  <!DOCTYPE html>
+  <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      ${head}
+      ${scripts}
+    </head>
+    <body>
+      <div id="root">${appHtml}</div>
+    </body>
+  </html>
+`;
+
+// =======================
+// Nonce
+// Случайный nonce запроса (base64, 128 бит)
+export function createNonce() {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function nonceAttribute(nonce: string | undefined) {
+  return nonce ? ` nonce="${nonce}"` : '';
+}
+
+export function inlineScript(code: string, nonce: string | undefined) {
+  return `<script${nonceAttribute(nonce)}>${code}</script>`;
+}
+
+// Скрипты без nonce, добавленные после рендера документа (vite.transformIndexHtml: @vite/client,
+// react-refresh), получают nonce запроса
+export function addScriptNonce(html: string, nonce: string | undefined) {
+  return nonce ? html.replace(/<script(?![^>]*\snonce=)(?=[\s>])/g, `<script nonce="${nonce}"`) : html;
+}
@@ -0,0 +1,47 @@
+// Ошибки страниц
+// page() может вернуть { type: 'error' } или бросить исключение - в обоих случаях
+// результат приводится к PageErrorResult и показывается error view (страницы или приложения)
+
+// Нормализованный результат ошибки (то, что получают error view и клиент)
+export interface PageErrorResult {
+  type: 'error';
+  status: number;
+  message: string;
+  // Только вне production
+  stack?: string;
+}
+
+// Исключение с HTTP статусом: throw new PageError(503, 'Upstream is unavailable')
+export class PageError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'PageError';
+    this.status = status;
+  }
+}
+
+const INTERNAL_ERROR_MESSAGE = 'Internal Server Error';
+
+// Приведение брошенного исключения или возвращенного { type: 'error' } к PageErrorResult.
+// В production стек скрывается, как и сообщения непредвиденных 5xx ошибок
+// (сообщения PageError и возвращенных { type: 'error' } заданы намеренно и сохраняются)
+export function normalizeError(error: unknown, isProduction: boolean): PageErrorResult {
+  const source: any = error ?? {};
+  const rawStatus = Number(source.status ?? source.statusCode);
+  const status = rawStatus >= 400 && rawStatus < 600 ? rawStatus : 500;
+  const rawMessage = typeof source === 'string' ? source : source.message;
+  const isIntentional = source instanceof PageError || source.type === 'error';
+  const hideMessage = isProduction && status >= 500 && !isIntentional;
+
+  const result: PageErrorResult = {
+    type: 'error',
+    status,
+    message: hideMessage ? INTERNAL_ERROR_MESSAGE : rawMessage || INTERNAL_ERROR_MESSAGE,
+  };
+  if (!isProduction && typeof source.stack === 'string') {
+    result.stack = source.stack;
+  }
+  return result;
+}
@@ -0,0 +1,91 @@
+// Guards (beforeEach): порядок контракт -> layout'ы -> страница, прерывание загрузки
+// и forbidden как ошибка 403
+
+import { describe, expect, it, vi } from 'vitest';
+import type { GuardResult } from './guards';
+import { initContract, type Contract } from './index';
+import { createPageLoader } from './loader';
+import { createRuntimeResponse } from './request';
+
+// Контракт /admin/users с guards на каждом уровне. blockAt - guard, который прерывает загрузку
+function createContract(blockAt?: string, result: GuardResult = { type: 'forbidden' }) {
+  const calls: string[] = [];
+  const guard = (name: string) => () => {
+    calls.push(name);
+    return name === blockAt ? result : undefined;
+  };
+
+  const contract = initContract({ appContext: async (runtime) => ({ role: runtime.cookies?.role ?? 'guest' }) });
+  contract.beforeEach(guard('contract'));
+  const section = contract.defineLayout({ path: '/admin', beforeEach: guard('layout') });
+  const nested = contract.defineLayout({ parent: section, path: '/admin/users', beforeEach: [guard('nested'), guard('nested-2')] });
+  const page = vi.fn(async () => ({ type: 'ok' as const, data: { users: [] } }));
+  contract.definePage({ parent: nested, path: '/admin/users/:id', beforeEach: guard('page'), page });
+  return { contract, calls, page };
+}
+
+const load = <AppCtx>(contract: Contract<AppCtx, any>, url = '/admin/users/1') =>
+  createPageLoader(contract, true).loadPageResponse(url, new Set(), false, {
+    request: new Request(`http://app.test${url}`),
+    response: createRuntimeResponse(),
+  });
+
+describe('guards', () => {
+  it('run from the contract to the page before page()', async () => {
+    const { contract, calls, page } = createContract();
+    const { status } = await load(contract);
+    expect(status).toBe(200);
+    expect(calls).toEqual(['contract', 'layout', 'nested', 'nested-2', 'page']);
+    expect(page).toHaveBeenCalledTimes(1);
+  });
+
+  it('stop at the first guard that returns a result', async () => {
+    const { contract, calls, page } = createContract('layout', { type: 'redirect', to: '/login' });
+    const { status, data } = await load(contract);
+    expect(status).toBe(302);
+    expect(data.page).toEqual({ type: 'redirect', to: '/login' });
+    expect(calls).toEqual(['contract', 'layout']);
+    expect(page).not.toHaveBeenCalled();
+  });
+
+  it('turn forbidden into a 403 error', async () => {
+    const { contract, page } = createContract('nested', { type: 'forbidden', message: 'Admins only' });
+    const { status, data } = await load(contract);
+    expect(status).toBe(403);
+    expect(data.page).toEqual({ type: 'error', status: 403, message: 'Admins only' });
+    expect(page).not.toHaveBeenCalled();
+  });
+
+  it('return not-found with 404', async () => {
+    const { contract } = createContract('page', { type: 'not-found' });
+    const { status, data } = await load(contract);
+    expect(status).toBe(404);
+    expect(data.page).toEqual({ type: 'not-found' });
+  });
+
+  it('turn a thrown error into an error result', async () => {
+    const contract = initContract({ appContext: async () => ({}) });
+    contract.beforeEach(() => {
+      throw new Error('Session store is down');
+    });
+    contract.definePage({ path: '/', page: async () => ({ type: 'ok', data: {} }) });
+    const { status, data } = await load(contract, '/');
+    expect(status).toBe(500);
+    expect(data.page).toMatchObject({ type: 'error', status: 500, message: 'Internal Server Error' });
+  });
+
+  it('receive appContext and coerced params', async () => {
+    const contract = initContract({ appContext: async () => ({ role: 'admin' }) });
+    const guard = vi.fn((): GuardResult => undefined);
+    contract.definePage({
+      path: '/users/:id',
+      params: ({ id }) => ({ id: Number(id) }),
+      beforeEach: guard,
+      page: async () => ({ type: 'ok', data: {} }),
+    });
+    await load(contract, '/users/5?tab=info');
+    expect(guard).toHaveBeenCalledWith(
+      expect.objectContaining({ appContext: { role: 'admin' }, params: { id: 5 } })
+    );
+  });
+});
@@ -0,0 +1,66 @@
+// Guards (beforeEach)
+// Выполняются на сервере перед page() страницы и ее layout'ов - одинаково для SSR, /api/page
+// и клиентской навигации (она загружает данные через /api/page).
+// Порядок: guards контракта -> guards layout'ов (от внешнего к внутреннему) -> guards страницы.
+// Первый guard, вернувший результат, прерывает загрузку страницы
+
+import type { RuntimeContext } from './index';
+import type { PageErrorResult } from './errors';
+
+// =======================
+// Типы
+export type GuardResult =
+  | { type: 'redirect'; to: string; status?: number }
+  | { type: 'not-found' }
+  | { type: 'forbidden'; message?: string }
+  // Ничего не вернул - проверка пройдена
+  | void;
+
+// HasAppCtx = any (Contract<AppCtx, any> - любой контракт): appContext может не быть. Без этого
+// контракт без appContext не передать в enhanceContractWithSPA, createPageLoader и т.п.
+export type GuardArgs<AppCtx, Params, HasAppCtx extends boolean, Search> = boolean extends HasAppCtx
+  ? { runtime: RuntimeContext; appContext?: AppCtx; params: Params; search: Search }
+  : [HasAppCtx] extends [true]
+  ? { runtime: RuntimeContext; appContext: AppCtx; params: Params; search: Search }
+  : { runtime: RuntimeContext; params: Params; search: Search };
+
+export type Guard<AppCtx, Params = Record<string, unknown>, HasAppCtx extends boolean = true, Search = {}> = (
+  args: GuardArgs<AppCtx, Params, HasAppCtx, Search>
+) => GuardResult | Promise<GuardResult>;
+
+// Guard или список guards (в опциях definePage / defineLayout)
+export type Guards<AppCtx, Params, HasAppCtx extends boolean, Search> =
+  | Guard<AppCtx, Params, HasAppCtx, Search>
+  | Guard<AppCtx, Params, HasAppCtx, Search>[];
+
+// Результат guard'а, прервавшего загрузку (forbidden приводится к ошибке 403)
+export type GuardBlockResult =
+  | { type: 'redirect'; to: string; status?: number }
+  | { type: 'not-found' }
+  | PageErrorResult;
+
+// Guard вместе с аргументами, с которыми его нужно вызвать
+export interface PendingGuard {
+  guard: Guard<any, any, any, any>;
+  args: any;
+}
+
+// =======================
+export function toGuardList(guards: Guards<any, any, any, any> | undefined): Guard<any, any, any, any>[] {
+  if (!guards) return [];
+  return Array.isArray(guards) ? guards : [guards];
+}
+
+// Последовательный запуск guards. Исключение guard'а не перехватывается (его нормализует вызывающий)
+export async function runGuards(pending: PendingGuard[]): Promise<GuardBlockResult | null> {
+  for (const { guard, args } of pending) {
+    const result = await guard(args);
+    if (!result) continue;
+
+    if (result.type === 'forbidden') {
+      return { type: 'error', status: 403, message: result.message || 'Forbidden' };
+    }
+    return result;
+  }
+  return null;
+}
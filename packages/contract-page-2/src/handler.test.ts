@@ -0,0 +1,92 @@
+// POST /api/action/:name: защита от CSRF (Content-Type, Origin, Sec-Fetch-Site) и невалидное тело
+
+import { describe, expect, it, vi } from 'vitest';
+import { createRequestHandler, type DocumentRenderer } from './handler';
+import { initContract } from './index';
+import { defaultSerializer } from './serializer';
+
+// Рендер документа не нужен: actions и /api/page отвечают JSON
+const renderer: DocumentRenderer<any> = {
+  serializer: defaultSerializer,
+  renderPage: async (url) => ({ status: 200, html: url }),
+  element: () => null,
+  streamDocument: () => '',
+};
+
+function createHandler(allowedOrigins?: string[]) {
+  const contract = initContract();
+  const handler = vi.fn(async ({ input }: { input: unknown }) => ({ input }));
+  contract.defineAction({ name: 'save', handler });
+  const handleRequest = createRequestHandler<any>(
+    contract,
+    allowedOrigins ? { renderToString: () => '', isProd: true, allowedOrigins } : { renderToString: () => '', isProd: true },
+    renderer
+  );
+  return { handleRequest, handler };
+}
+
+const post = (headers: Record<string, string>, body = '{"input":{"title":"x"},"url":"/"}') =>
+  new Request('http://app.test/api/action/save', { method: 'POST', headers, body });
+
+const read = async (response: Response) => defaultSerializer.parse(await response.text()) as any;
+
+describe('action requests', () => {
+  it('runs same-origin JSON requests', async () => {
+    const { handleRequest, handler } = createHandler();
+    const requests: Array<Record<string, string>> = [
+      { 'Content-Type': 'application/json' },
+      { 'Content-Type': 'application/json; charset=utf-8', Origin: 'http://app.test' },
+      { 'Content-Type': 'application/json', 'Sec-Fetch-Site': 'same-origin' },
+    ];
+    for (const headers of requests) {
+      const response = await handleRequest(post(headers));
+      expect(response.status).toBe(200);
+      expect(await read(response)).toEqual({ output: { input: { title: 'x' } } });
+    }
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects bodies that are not application/json with 415', async () => {
+    const { handleRequest, handler } = createHandler();
+    for (const contentType of ['text/plain', 'application/x-www-form-urlencoded', 'multipart/form-data']) {
+      const response = await handleRequest(post({ 'Content-Type': contentType }));
+      expect(response.status).toBe(415);
+      expect((await read(response)).error).toMatchObject({ type: 'error', status: 415 });
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('rejects cross-origin requests with 403', async () => {
+    const { handleRequest, handler } = createHandler();
+    const requests: Array<Record<string, string>> = [
+      { Origin: 'https://evil.test' },
+      { Origin: 'null' },
+      { 'Sec-Fetch-Site': 'cross-site' },
+      { 'Sec-Fetch-Site': 'same-site' },
+    ];
+    for (const headers of requests) {
+      const response = await handleRequest(post({ 'Content-Type': 'application/json', ...headers }));
+      expect(response.status).toBe(403);
+      expect((await read(response)).error).toMatchObject({ type: 'error', status: 403 });
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('accepts origins from allowedOrigins', async () => {
+    const { handleRequest } = createHandler(['https://admin.app.test']);
+    const allowed = await handleRequest(post({ 'Content-Type': 'application/json', Origin: 'https://admin.app.test' }));
+    const other = await handleRequest(post({ 'Content-Type': 'application/json', Origin: 'https://other.app.test' }));
+    expect(allowed.status).toBe(200);
+    expect(other.status).toBe(403);
+  });
+
+  it('rejects malformed bodies with 400 without running the action', async () => {
+    const { handleRequest, handler } = createHandler();
+    for (const body of ['{"input":{"title"', '', 'null', '[1]', '"text"']) {
+      const response = await handleRequest(post({ 'Content-Type': 'application/json' }, body));
+      expect(response.status).toBe(400);
+      expect((await read(response)).error).toMatchObject({ type: 'error', status: 400 });
+    }
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
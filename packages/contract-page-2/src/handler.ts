@@ -0,0 +1,429 @@
+// Обработчик запросов приложения на Web-стандартах: handleRequest(request: Request): Promise<Response>
+// SSR страниц, GET /api/page и POST /api/action/:name без привязки к Express и своему порту.
+// Встраивается в любой сервер через адаптеры (node.ts): http.createServer, Express middleware, runServer.
+// Среды с fetch API (serverless, edge) вызывают handleRequest напрямую
+
+import type { Contract, RuntimeServices } from './index';
+import { collectDeferred, serializeSettled, type Deferred } from './defer';
+import { addScriptNonce, createNonce, inlineScript, type DocumentRender } from './document';
+import { createPageLoader } from './loader';
+import { applyRuntimeResponse, createRuntimeResponse, type ServerRequest } from './request';
+import { serializeForScript, type Serializer } from './serializer';
+import type { RenderedPage } from './spa';
+
+// =======================
+// Типы
+export type RequestHandler = (request: Request, context?: RequestContext) => Promise<Response>;
+
+// Данные запроса, которых нет в Request (передает адаптер сервера)
+export interface RequestContext {
+  // IP клиента (runtime.ip)
+  ip?: string | undefined;
+}
+
+export interface RequestHandlerOptions {
+  renderToString: (element: any) => string;
+  // Потоковый SSR: если передан renderToPipeableStream (react-dom/server), он используется вместо renderToString
+  renderToPipeableStream?: (element: any, options: any) => any;
+  // Сколько ждать отложенные данные в потоке, мс
+  streamTimeout?: number;
+  // Модуль клиента: строка или { dev, prod } (по умолчанию '/src/client.tsx' в dev и '/assets/main.js' в prod)
+  clientEntry?: string | { dev: string; prod: string };
+  // Префикс url приложения (runtime.url и matchRoute получают url без него)
+  base?: string;
+  isProd?: boolean;
+  // Преобразование HTML документа перед отправкой (vite.transformIndexHtml в dev)
+  transformHtml?: (url: string, html: string) => Promise<string>;
+  // Необработанная ошибка SSR (vite.ssrFixStacktrace в dev)
+  onError?: (error: unknown) => void;
+  // HTML-документ (по умолчанию - defineApp({ document }))
+  document?: DocumentRender;
+  // Заголовок Content-Security-Policy HTML-ответов. Получает nonce запроса, который ставится
+  // всем inline-скриптам документа:
+  //   contentSecurityPolicy: (nonce) => `script-src 'nonce-${nonce}' 'strict-dynamic'; object-src 'none'; base-uri 'none'`
+  contentSecurityPolicy?: (nonce: string) => string;
+  // Сервисы сервера для getAppContext, guards, page() и actions (runtime.services)
+  services?: RuntimeServices;
+  // Origin'ы других сайтов, которым разрешено вызывать actions (свой origin разрешен всегда)
+  allowedOrigins?: string[];
+}
+
+// Страница, загруженная для потокового SSR
+export interface LoadedPage<AppCtx> {
+  url: string;
+  appContext: AppCtx | undefined;
+  result: any;
+  layouts: Record<string, any>;
+  pageParams: any;
+}
+
+// Рендер документа (создается в defineApp)
+export interface DocumentRenderer<AppCtx> {
+  // Сериализатор данных для клиента (defineApp({ serializer }))
+  serializer: Serializer;
+  renderPage: (
+    url: string,
+    options: {
+      renderToString: (element: any) => string;
+      clientEntry: string;
+      isProduction: boolean;
+      services?: RuntimeServices | undefined;
+      request?: ServerRequest | undefined;
+      nonce?: string | undefined;
+      document?: DocumentRender | undefined;
+    }
+  ) => Promise<RenderedPage>;
+  // Элемент приложения для страницы
+  element: (page: LoadedPage<AppCtx>) => any;
+  // Документ с меткой <!--app-html--> на месте разметки приложения.
+  // idFor - id отложенных данных, которые дописываются в поток
+  streamDocument: (
+    page: LoadedPage<AppCtx>,
+    options: {
+      clientEntry: string;
+      isProduction: boolean;
+      idFor: (deferred: Deferred) => string;
+      nonce: string | undefined;
+      document: DocumentRender | undefined;
+    }
+  ) => string;
+}
+
+const ACTION_PATH = /^\/api\/action\/([^/]+)$/;
+
+// =======================
+// Вспомогательные функции
+export function resolveClientEntry(entry: RequestHandlerOptions['clientEntry'], isProduction: boolean): string {
+  if (typeof entry === 'object' && entry !== null) {
+    return isProduction ? entry.prod : entry.dev;
+  }
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  return isProduction ? '/assets/main.js' : '/src/client.tsx';
+}
+
+// Запросы, которые обрабатывает приложение: GET/HEAD (SSR, /api/page) и POST /api/action/:name.
+// Остальные адаптеры передают дальше (next)
+export function handlesRequest(method: string, pathname: string) {
+  return method === 'GET' || method === 'HEAD' || (method === 'POST' && ACTION_PATH.test(pathname));
+}
+
+// Actions принимают только JSON со своего origin. Формы другого сайта (enctype="text/plain",
+// application/x-www-form-urlencoded) отправляются браузером без preflight - без этих проверок
+// любой сайт мог бы вызвать action от имени пользователя (CSRF).
+// Запросы без Origin и Sec-Fetch-Site (не из браузера) пропускаются
+function rejectActionRequest(request: Request, allowedOrigins: string[]): { status: number; message: string } | null {
+  const contentType = request.headers.get('Content-Type')?.split(';')[0]?.trim().toLowerCase();
+  if (contentType !== 'application/json') {
+    return { status: 415, message: 'Actions accept only application/json' };
+  }
+
+  const origin = request.headers.get('Origin');
+  if (origin !== null) {
+    let sameOrigin = false;
+    try {
+      // Сравнивается host: за прокси с TLS протокол запроса может отличаться от протокола Origin
+      sameOrigin = new URL(origin).host === new URL(request.url).host;
+    } catch {
+      // Origin: null (sandbox, file://)
+    }
+    return sameOrigin || allowedOrigins.includes(origin) ? null : { status: 403, message: 'Cross-origin action request' };
+  }
+
+  const fetchSite = request.headers.get('Sec-Fetch-Site');
+  if (fetchSite !== null && fetchSite !== 'same-origin' && fetchSite !== 'none') {
+    return { status: 403, message: 'Cross-origin action request' };
+  }
+  return null;
+}
+
+function json(status: number, body: unknown, serializer?: Serializer) {
+  return new Response(serializer ? serializer.stringify(body) : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// =======================
+// Обработчик
+export function createRequestHandler<AppCtx>(
+  contract: Contract<AppCtx, any>,
+  options: RequestHandlerOptions,
+  render: DocumentRenderer<AppCtx>
+): RequestHandler {
+  const {
+    renderToString,
+    renderToPipeableStream,
+    streamTimeout = 10000,
+    base = '/',
+    transformHtml,
+    onError,
+    services,
+    document,
+    contentSecurityPolicy,
+    allowedOrigins = [],
+  } = options;
+  const isProduction = options.isProd !== undefined ? options.isProd : process.env.NODE_ENV === 'production';
+  const clientEntry = resolveClientEntry(options.clientEntry, isProduction);
+  const { loadRequestData, loadPageResponse, runActionRequest } = createPageLoader(contract, isProduction, { services });
+
+  // Production заголовки для HTML
+  const htmlHeaders = (nonce: string | undefined) => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'text/html; charset=utf-8',
+    };
+    if (contentSecurityPolicy && nonce) {
+      headers['Content-Security-Policy'] = contentSecurityPolicy(nonce);
+    }
+    if (isProduction) {
+      // HTML не кешируем (динамический контент), но добавляем заголовки безопасности
+      headers['Cache-Control'] = 'no-cache, no-store, must-revalidate';
+      headers['Pragma'] = 'no-cache';
+      headers['Expires'] = '0';
+      headers['X-Content-Type-Options'] = 'nosniff';
+    }
+    return headers;
+  };
+
+  // Стек отдается только в dev
+  const serverError = (e: any) =>
+    new Response(isProduction ? 'Internal Server Error' : e?.stack || e?.message || 'Internal Server Error', {
+      status: 500,
+    });
+
+  // Потоковый SSR страницы: ответ создается, как только готов shell,
+  // значения defer() дописываются в поток по мере выполнения (window.__DEFERRED__)
+  const streamPage = async (
+    page: LoadedPage<AppCtx>,
+    status: number,
+    requestUrl: string,
+    nonce: string | undefined
+  ): Promise<Response> => {
+    const streamModule = 'stream';
+    const { Writable } = await import(/* @vite-ignore */ streamModule);
+    const encoder = new TextEncoder();
+    const { result, layouts } = page;
+
+    const deferredList = [result, ...Object.values(layouts)].flatMap(collectDeferred);
+    const ids = new Map<Deferred, string>(deferredList.map((deferred, i) => [deferred, `d${i}`]));
+    const idFor = (deferred: Deferred) => ids.get(deferred) as string;
+
+    // Модуль клиента выполняется после разбора всего документа, т.е. когда все
+    // отложенные данные уже в window.__DEFERRED__
+    let html = render.streamDocument(page, { clientEntry, isProduction, idFor, nonce, document });
+    if (transformHtml) {
+      html = addScriptNonce(await transformHtml(requestUrl, html), nonce);
+    }
+    const [htmlStart, htmlEnd] = html.split('<!--app-html-->');
+
+    let stream: any;
+    let output!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        output = controller;
+      },
+      // Клиент отключился
+      cancel() {
+        clearTimeout(abortTimer);
+        finished = true;
+        stream?.abort();
+      },
+    });
+    const write = (chunk: string | Uint8Array) => {
+      output.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+    };
+
+    // Скрипты с данными пишутся между flush'ами React, т.е. на границе готовых фрагментов
+    let shellSent = false;
+    let finished = false;
+    const written = new Set<Deferred>();
+    const queued: string[] = [];
+    const writeDeferred = (deferred: Deferred, settled = serializeSettled(deferred, isProduction)) => {
+      if (finished || written.has(deferred)) return;
+      written.add(deferred);
+      const script = inlineScript(
+        `window.__DEFERRED__[${JSON.stringify(idFor(deferred))}] = ${serializeForScript(render.serializer, settled)};`,
+        nonce
+      );
+      if (shellSent) {
+        write(script);
+      } else {
+        queued.push(script);
+      }
+    };
+    const allSettled = Promise.all(
+      deferredList.map((deferred) => deferred.promise.then(
+        () => writeDeferred(deferred),
+        () => writeDeferred(deferred)
+      ))
+    );
+
+    let abortTimer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<void>((resolve) => {
+      abortTimer = setTimeout(() => {
+        stream.abort();
+        resolve();
+      }, streamTimeout);
+    });
+
+    const destination = new Writable({
+      write(chunk: Uint8Array, _encoding: string, callback: () => void) {
+        if (!finished) write(chunk);
+        callback();
+      },
+      final(callback: () => void) {
+        Promise.race([allSettled, timedOut]).then(() => {
+          clearTimeout(abortTimer);
+          // Не дождались - клиент получит ошибку вместо значения
+          for (const deferred of deferredList) {
+            writeDeferred(deferred, {
+              status: 'rejected',
+              error: { type: 'error', status: 504, message: 'Deferred data timed out' },
+            });
+          }
+          if (!finished) {
+            finished = true;
+            write(htmlEnd);
+            output.close();
+          }
+          callback();
+        });
+      },
+    });
+
+    return new Promise<Response>((resolve) => {
+      stream = renderToPipeableStream!(render.element(page), {
+        // Inline-скрипты React (границы Suspense) получают тот же nonce
+        nonce,
+        onShellReady() {
+          write(htmlStart);
+          stream.pipe(destination);
+          shellSent = true;
+          for (const script of queued) {
+            write(script);
+          }
+          resolve(new Response(body, { status, headers: htmlHeaders(nonce) }));
+        },
+        onShellError(e: any) {
+          clearTimeout(abortTimer);
+          onError?.(e);
+          console.error('SSR Error:', e);
+          resolve(serverError(e));
+        },
+        onError(e: unknown) {
+          if (!isProduction) {
+            console.error('SSR Stream Error:', e);
+          }
+        },
+      });
+    });
+  };
+
+  // SSR документа
+  const renderHtml = async (url: string, requestUrl: string, server: ServerRequest): Promise<Response> => {
+    // Свой nonce у каждого ответа
+    const nonce = contentSecurityPolicy ? createNonce() : undefined;
+    // Невалидное percent-encoding в url (URIError) - ошибка запроса, а не SSR
+    const matched = contract.matchRoute(url);
+    try {
+      if (!renderToPipeableStream || !matched.page) {
+        // renderToString не ждет Suspense - отложенные данные дожидаются заранее
+        const rendered = await render.renderPage(url, {
+          renderToString,
+          clientEntry,
+          isProduction,
+          services,
+          request: server,
+          nonce,
+          document,
+        });
+        if ('redirect' in rendered) {
+          return new Response(null, { status: rendered.status, headers: { Location: rendered.redirect } });
+        }
+
+        const html = transformHtml
+          ? addScriptNonce(await transformHtml(requestUrl, rendered.html), nonce)
+          : rendered.html;
+        return new Response(html, { status: rendered.status, headers: htmlHeaders(nonce) });
+      }
+
+      const {
+        appContext,
+        data: { page: result, layouts, params: pageParams },
+      } = await loadRequestData(url, matched, new Set(), server);
+      if (result.type === 'redirect') {
+        return new Response(null, { status: result.status || 302, headers: { Location: result.to } });
+      }
+
+      const status = result.type === 'error' ? result.status : result.type === 'not-found' ? 404 : 200;
+      return await streamPage({ url, appContext, result, layouts, pageParams }, status, requestUrl, nonce);
+    } catch (e) {
+      onError?.(e);
+      console.error('SSR Error:', e);
+      return serverError(e);
+    }
+  };
+
+  const handle = async (request: Request, server: ServerRequest): Promise<Response> => {
+    const { pathname, search, searchParams } = new URL(request.url);
+
+    // Actions: POST /api/action/:name { input, url } -> { output } | { error }
+    const action = pathname.match(ACTION_PATH);
+    if (action && request.method === 'POST') {
+      const rejected = rejectActionRequest(request, allowedOrigins);
+      if (rejected) {
+        return json(rejected.status, { error: { type: 'error', ...rejected } }, render.serializer);
+      }
+      // Обрезанное или невалидное тело - 400: action без схемы не должен выполниться с input: undefined
+      const body = await request.json().catch(() => null);
+      if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        const error = { type: 'error', status: 400, message: 'Invalid action request body' };
+        return json(400, { error }, render.serializer);
+      }
+      const { status, body: response } = await runActionRequest(decodeURIComponent(action[1]), body, server);
+      return json(status, response, render.serializer);
+    }
+
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response('Method Not Allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+    }
+
+    // API endpoint для SPA навигации
+    if (pathname === '/api/page') {
+      const url = searchParams.get('url');
+      if (!url) {
+        return json(400, { error: 'url required' }, render.serializer);
+      }
+      const { status, data } = await loadPageResponse(
+        url,
+        new Set(searchParams.getAll('keep')),
+        searchParams.get('appContext') === '1',
+        server
+      );
+      return json(status, data, render.serializer);
+    }
+
+    // url без base, но с ведущим '/' (он нужен runtime.url в appContext и guards)
+    const requestUrl = pathname + search;
+    const url =
+      base !== '/' && requestUrl.startsWith(base) ? requestUrl.slice(base.length - 1) : requestUrl;
+    return renderHtml(url, requestUrl, server);
+  };
+
+  // runtime.response (статус, заголовки и cookies из getAppContext, page() и actions) - в ответ
+  // Ответ есть всегда: невалидный url - 400, остальные исключения (schema, serializer) - 500
+  return async (request, context = {}) => {
+    const server: ServerRequest = { request, ip: context.ip, response: createRuntimeResponse() };
+    try {
+      return applyRuntimeResponse(await handle(request, server), server.response);
+    } catch (e) {
+      if (e instanceof URIError) {
+        return new Response('Bad Request', { status: 400 });
+      }
+      onError?.(e);
+      console.error('Request Error:', e);
+      return serverError(e);
+    }
+  };
+}
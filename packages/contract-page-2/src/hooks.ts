@@ -0,0 +1,77 @@
+// React context приложения и роутов
+// AppComponent оборачивает вывод в провайдеры: appContext - все приложение, данные роута -
+// view страницы и каждого layout'а. Вложенные компоненты читают их хуками без передачи через props.
+// Контексты создаются при первом обращении: React передается в defineApp
+
+import type { RouteParams } from './index';
+import { getReact } from './react';
+
+// =======================
+// Контексты
+// Значение контекста роута. parent - роут снаружи (layout), по нему ищется конкретная страница
+export interface RouteContextValue {
+  route: object;
+  pageContext: any;
+  params: RouteParams;
+  search: Record<string, unknown>;
+  parent: RouteContextValue | null;
+}
+
+let contexts: { app: any; route: any } | null = null;
+
+// null - в defineApp не передан createContext (хуки недоступны, приложение работает без них)
+export function getContexts(): { app: any; route: any } | null {
+  const { createContext } = getReact();
+  if (!contexts && createContext) {
+    contexts = { app: createContext(undefined), route: createContext(null) };
+  }
+  return contexts;
+}
+
+function useContextOf(name: 'app' | 'route', hook: string) {
+  const { useContext } = getReact();
+  const current = getContexts();
+  if (!current || !useContext) {
+    throw new Error(`${hook} requires createContext and useContext in defineApp({ React })`);
+  }
+  return useContext(current[name]);
+}
+
+// =======================
+// Хуки
+function useRouteContext(hook: string): RouteContextValue {
+  const value = useContextOf('route', hook);
+  if (!value) {
+    throw new Error(`${hook} must be called inside a page or layout view`);
+  }
+  return value;
+}
+
+// appContext приложения (undefined, если у контракта нет getAppContext).
+// Типизированная версия - contract.useAppContext()
+export function useAppContext<AppCtx = unknown>(): AppCtx {
+  return useContextOf('app', 'useAppContext()');
+}
+
+// Результат page() ближайшего роута (страницы или layout'а, внутри которого находится компонент).
+// Типизированная версия - page.usePageContext()
+export function usePageContext<TPageContext = unknown>(): TPageContext {
+  return useRouteContext('usePageContext()').pageContext;
+}
+
+// Params ближайшего роута (для страницы - приведенные схемой)
+export function useParams<Params = RouteParams>(): Params {
+  return useRouteContext('useParams()').params as Params;
+}
+
+// Результат page() конкретной страницы или layout'а (page.usePageContext())
+export function useRoutePageContext(route: object, path: string) {
+  let value: RouteContextValue | null = useRouteContext('usePageContext()');
+  while (value && value.route !== route) {
+    value = value.parent;
+  }
+  if (!value) {
+    throw new Error(`usePageContext() of "${path}" must be called inside its view`);
+  }
+  return value.pageContext;
+}
@@ -1,7 +1,42 @@
+import type { ParamsSchema } from './params';
+import type { SeoMeta } from './seo';
+import type { PageErrorResult } from './errors';
+import type { RuntimeResponse } from './request';
+import { toGuardList, type Guard, type Guards } from './guards';
+import { runAction, type Action, type ActionArgs, type ActionInputSchema } from './actions';
+import {
+  createMemoryCacheStore,
+  createPageCache,
+  type CacheInvalidation,
+  type PageCacheOptions,
+  type PageCacheStore,
+} from './cache';
+import { compileRoutes, segmentParamName, splitPath, type CompiledMatcher } from './matcher';
+import { useAppContext, useRoutePageContext } from './hooks';
+
 // =======================
-// Минимальный runtime-контекст (для формирования AppContext сервером)
+// Сервисы сервера, в который встроено приложение (например, провайдеры NestJS).
+// Типизируются расширением интерфейса:
+//   declare module '@monorepo/contract-page-2' { interface RuntimeServices { episodes: EpisodesService } }
+export interface RuntimeServices {}
+
+// Runtime-контекст запроса (для формирования AppContext, guards, page() и actions).
+// На сервере заполнены поля HTTP-запроса, на клиенте - url, cookies и locale (см. request.ts).
+// При prerender - только url
 export interface RuntimeContext {
   url: string;
+  // Только на сервере: services из createRequestHandler / ContractPageModule
+  services?: RuntimeServices;
+  // Только на сервере: метод и заголовки запроса, IP клиента
+  method?: string;
+  headers?: Headers;
+  ip?: string;
+  // Cookies запроса (на клиенте - document.cookie, без HttpOnly)
+  cookies?: Record<string, string>;
+  // Язык клиента: Accept-Language на сервере, navigator.language на клиенте
+  locale?: string;
+  // Только на сервере: статус, заголовки и cookies ответа
+  response?: RuntimeResponse;
 }
 
 // Результаты PageFunction
@@ -10,9 +45,9 @@ export interface RuntimeContext {
 // Если RouteCtx = unknown, то [unknown] extends [RouteCtx] тоже true, что означает что это точно unknown
 type PageResultOk<RouteCtx> = [RouteCtx] extends [unknown]
   ? [unknown] extends [RouteCtx]
-    ? { type: 'ok'; seo?: unknown }
-    : { type: 'ok'; data?: RouteCtx; seo?: unknown }
-  : { type: 'ok'; data?: RouteCtx; seo?: unknown };
+    ? { type: 'ok'; seo?: SeoMeta }
+    : { type: 'ok'; data?: RouteCtx; seo?: SeoMeta }
+  : { type: 'ok'; data?: RouteCtx; seo?: SeoMeta };
 
 type PageResultNotFound<RouteCtx> = [RouteCtx] extends [unknown]
   ? [unknown] extends [RouteCtx]
@@ -20,30 +55,103 @@ type PageResultNotFound<RouteCtx> = [RouteCtx] extends [unknown]
     : { type: 'not-found'; data?: RouteCtx }
   : { type: 'not-found'; data?: RouteCtx };
 
+// Ошибка страницы: показывается error view, а не view страницы (status по умолчанию 500)
+type PageResultError = { type: 'error'; status?: number; message?: string };
+
 export type PageResult<RouteCtx = unknown> =
   | PageResultOk<RouteCtx>
   | { type: 'redirect'; to: string; status?: number }
-  | PageResultNotFound<RouteCtx>;
+  | PageResultNotFound<RouteCtx>
+  | PageResultError;
 
 // =======================
 // Type-safe params из path
-type ParamsFromPath<Path extends string> =
-  Path extends `${infer _Start}/:${infer Param}/${infer Rest}`
-    ? { [k in Param | keyof ParamsFromPath<`/${Rest}`>]: string }
-    : Path extends `${infer _Start}/:${infer Param}`
+// Сегменты: ':id' - обязательный, ':id?' - необязательный, '*rest' - все оставшиеся сегменты (только последним)
+export type RouteParams = Record<string, string | string[]>;
+
+type ParamsFromSegment<Segment extends string> =
+  Segment extends `*${infer Param}`
+    ? { [k in Param]: string[] }
+    : Segment extends `:${infer Param}?`
+    ? { [k in Param]?: string }
+    : Segment extends `:${infer Param}`
     ? { [k in Param]: string }
     : {};
 
+type ParamsFromSegments<Path extends string> =
+  Path extends `${infer Segment}/${infer Rest}`
+    ? ParamsFromSegment<Segment> & ParamsFromSegments<Rest>
+    : ParamsFromSegment<Path>;
+
+// Схлопывание пересечения в один объектный тип (для читаемых подсказок)
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ParamsFromPath<Path extends string> = Simplify<ParamsFromSegments<Path>>;
+
+// Params, которые получает page() (после приведения схемой, если она указана)
+type ArgsOf<TPageFunction> = TPageFunction extends (args: infer Args) => any ? Args : never;
+type PageParams<TPageFunction> = ArgsOf<TPageFunction> extends { params: infer Params } ? Params : never;
+
+// =======================
+// Type-safe search params (query string)
+// Каждый ключ формы - парсер, получающий первое значение параметра и все его значения
+// (как URLSearchParams.get / getAll). Необъявленные ключи в page() не попадают
+export type SearchParamParser<T = unknown> = (value: string | undefined, all: string[]) => T;
+
+// Форма search params: тип результата выводится из возвращаемых значений парсеров
+export type SearchShape<Search = Record<string, unknown>> = {
+  [K in keyof Search]: SearchParamParser<Search[K]>;
+};
+
+// =======================
+// Type-safe ссылки: params для href принимают и числа, search - значения, которые возвращают парсеры
+type HrefParamValue = string | number;
+
+export type HrefParams<Path extends string> = {
+  [K in keyof ParamsFromPath<Path>]: ParamsFromPath<Path>[K] extends string[]
+    ? HrefParamValue[]
+    : ParamsFromPath<Path>[K] extends string | undefined
+    ? HrefParamValue
+    : never;
+};
+
+export type HrefSearch<Search> = {
+  [K in keyof Search]?: Search[K] | string | null;
+};
+
+// params обязательны, только если в path есть обязательные сегменты
+export type HrefArgs<Path extends string, Search = {}> = {} extends HrefParams<Path>
+  ? [params?: HrefParams<Path>, search?: HrefSearch<Search>]
+  : [params: HrefParams<Path>, search?: HrefSearch<Search>];
+
+// Url, соответствующий pattern: динамические сегменты становятся string, query допускается
+type UrlSegment<Segment extends string> = Segment extends `:${string}` | `*${string}` ? string : Segment;
+
+type UrlFromSegments<Path extends string> =
+  Path extends `${infer Segment}/${infer Rest}`
+    ? `${UrlSegment<Segment>}/${UrlFromSegments<Rest>}`
+    : UrlSegment<Path>;
+
+export type UrlFromPath<Path extends string> = UrlFromSegments<Path> | `${UrlFromSegments<Path>}?${string}`;
+
 // =======================
 // PageFunction с условием: AppCtx только если есть AppContext
+export type PageArgs<
+  AppCtx,
+  Params = RouteParams,
+  HasAppCtx extends boolean = true,
+  Search = {}
+> = [HasAppCtx] extends [true]
+  ? { runtime: RuntimeContext; appContext: AppCtx; params: Params; search: Search }
+  : { runtime: RuntimeContext; params: Params; search: Search };
+
 export type PageFunction<
   AppCtx,
-  Params = Record<string, string>,
+  Params = RouteParams,
   RouteCtx = unknown,
-  HasAppCtx extends boolean = true
-> = HasAppCtx extends true
-  ? (args: { appContext: AppCtx; params: Params }) => PageResult<RouteCtx> | Promise<PageResult<RouteCtx>>
-  : (args: { params: Params }) => PageResult<RouteCtx> | Promise<PageResult<RouteCtx>>;
+  HasAppCtx extends boolean = true,
+  Search = {}
+> = (args: PageArgs<AppCtx, Params, HasAppCtx, Search>) => PageResult<RouteCtx> | Promise<PageResult<RouteCtx>>;
 
 // Извлечение типа RouteCtx из PageFunction
 // Этот тип извлекает RouteCtx из возвращаемого значения PageFunction
@@ -67,9 +175,9 @@ type OmitNever<T> = {
 // Нормализация типа результата - убирает data из вариантов, где оно не указано явно
 // И удаляет свойства с типом never
 type NormalizePageResult<T> = T extends { type: 'ok'; data: infer D }
-  ? { type: 'ok'; data: OmitNever<D>; seo?: unknown }
+  ? { type: 'ok'; data: OmitNever<D>; seo?: SeoMeta }
   : T extends { type: 'ok' }
-  ? { type: 'ok'; seo?: unknown }
+  ? { type: 'ok'; seo?: SeoMeta }
   : T extends { type: 'not-found'; data: infer D }
   ? { type: 'not-found'; data: OmitNever<D> }
   : T extends { type: 'not-found' }
@@ -77,10 +185,13 @@ type NormalizePageResult<T> = T extends { type: 'ok'; data: infer D }
   : T;
 
 // Извлечение точного типа результата из PageFunction
-// Возвращает union всех возможных результатов функции, нормализованных (data только если указано, never свойства исключены)
+// Возвращает union всех возможных результатов функции, нормализованных (data только если указано, never свойства исключены).
+// Ошибки в pageContext не попадают - их получает error view
 export type ExtractPageResult<TPageFunction> = TPageFunction extends (...args: any[]) => infer R
   ? Awaited<R> extends infer Result
-    ? Result extends any
+    ? Result extends { type: 'error' }
+      ? never
+      : Result extends any
       ? NormalizePageResult<Result>
       : never
     : never
@@ -94,159 +205,601 @@ export type PageViewProps<
   AppCtx,
   TPageContext,
   Params,
-  HasAppCtx extends boolean
+  HasAppCtx extends boolean,
+  Search = {}
+> = HasAppCtx extends true
+  ? { appContext: AppCtx; pageContext: TPageContext; params: Params; search: Search }
+  : { pageContext: TPageContext; params: Params; search: Search };
+
+// Пропсы error view страницы. appContext может отсутствовать, если ошибка произошла при его получении
+export type ErrorViewProps<
+  AppCtx,
+  Params,
+  HasAppCtx extends boolean,
+  Search = {}
 > = HasAppCtx extends true
-  ? { appContext: AppCtx; pageContext: TPageContext; params: Params }
-  : { pageContext: TPageContext; params: Params };
+  ? { appContext: AppCtx | undefined; error: PageErrorResult; params: Params; search: Search }
+  : { error: PageErrorResult; params: Params; search: Search };
+
+// Пропсы layout'а - те же, что у страницы, плюс вложенный контент (дочерний layout или страница)
+export type LayoutViewProps<
+  AppCtx,
+  TPageContext,
+  Params,
+  HasAppCtx extends boolean,
+  Search = {}
+> = PageViewProps<AppCtx, TPageContext, Params, HasAppCtx, Search> & { children: any };
 
 // PageDefinition
 export interface PageDefinition<
   AppCtx,
   Path extends string = string,
   RouteCtx = unknown,
-  HasAppCtx extends boolean = true
+  HasAppCtx extends boolean = true,
+  Search = {},
+  Params = ParamsFromPath<Path>
 > {
   path: Path;
-  page: PageFunction<AppCtx, ParamsFromPath<Path>, RouteCtx, HasAppCtx>;
+  parent?: AnyLayout<AppCtx, HasAppCtx>;
+  params?: ParamsSchema<ParamsFromPath<Path>, Params>;
+  search?: SearchShape<Search>;
+  beforeEach?: Guards<AppCtx, Params, HasAppCtx, Search>;
+  cache?: PageCacheOptions<PageArgs<AppCtx, Params, HasAppCtx, Search>>;
+  getStaticPaths?: () => HrefParams<Path>[] | Promise<HrefParams<Path>[]>;
+  page: PageFunction<AppCtx, Params, RouteCtx, HasAppCtx, Search>;
+}
+
+export interface PageViewOptions {
+  // false - роутер не меняет прокрутку при переходе на страницу (view управляет ей сам)
+  scroll?: boolean;
 }
 
 // Результат definePage - объект с функцией defineView
+// Params view берутся из аргументов page(), т.е. уже приведенные схемой
 export interface PageWithView<
   AppCtx,
   Path extends string,
   RouteCtx,
   HasAppCtx extends boolean,
-  TPageFunction extends PageFunction<AppCtx, ParamsFromPath<Path>, RouteCtx, HasAppCtx> = PageFunction<AppCtx, ParamsFromPath<Path>, RouteCtx, HasAppCtx>
+  Search = {},
+  TPageFunction extends (args: any) => any = PageFunction<AppCtx, ParamsFromPath<Path>, RouteCtx, HasAppCtx, Search>
 > {
   path: Path;
   page: TPageFunction;
-  defineView: <TComponent extends ReactComponent<PageViewProps<AppCtx, ExtractPageResult<TPageFunction>, ParamsFromPath<Path>, HasAppCtx>>>(
+  // Ссылка на страницу: href({ id: 1 }, { tab: 'info' }) -> '/character/1?tab=info'
+  href: (...args: HrefArgs<Path, Search>) => string;
+  defineView: <TComponent extends ReactComponent<PageViewProps<AppCtx, ExtractPageResult<TPageFunction>, PageParams<TPageFunction>, HasAppCtx, Search>>>(
+    component: TComponent,
+    options?: PageViewOptions
+  ) => ReactComponent<PageViewProps<AppCtx, ExtractPageResult<TPageFunction>, PageParams<TPageFunction>, HasAppCtx, Search>>;
+  // View для ошибок этой страницы (иначе используется error view приложения)
+  defineErrorView: <TComponent extends ReactComponent<ErrorViewProps<AppCtx, PageParams<TPageFunction>, HasAppCtx, Search>>>(
     component: TComponent
-  ) => ReactComponent<PageViewProps<AppCtx, ExtractPageResult<TPageFunction>, ParamsFromPath<Path>, HasAppCtx>>;
+  ) => ReactComponent<ErrorViewProps<AppCtx, PageParams<TPageFunction>, HasAppCtx, Search>>;
+  // Результат page() этой страницы в любом компоненте внутри ее view
+  usePageContext: () => ExtractPageResult<TPageFunction>;
+}
+
+// Результат defineLayout - layout сам по себе не является роутом,
+// он оборачивает дочерние страницы (и layout'ы), чей path начинается с его path
+export interface LayoutWithView<
+  AppCtx,
+  Path extends string,
+  HasAppCtx extends boolean,
+  Search = {},
+  TPageFunction extends (args: PageArgs<AppCtx, ParamsFromPath<Path>, HasAppCtx, Search>) => any = PageFunction<AppCtx, ParamsFromPath<Path>, unknown, HasAppCtx, Search>
+> {
+  path: Path;
+  page: TPageFunction | undefined;
+  defineView: <TComponent extends ReactComponent<LayoutViewProps<AppCtx, ExtractPageResult<TPageFunction>, ParamsFromPath<Path>, HasAppCtx, Search>>>(
+    component: TComponent
+  ) => ReactComponent<LayoutViewProps<AppCtx, ExtractPageResult<TPageFunction>, ParamsFromPath<Path>, HasAppCtx, Search>>;
+  // Результат page() layout'а в любом компоненте внутри его view (включая вложенные страницы)
+  usePageContext: () => ExtractPageResult<TPageFunction>;
+}
+
+type AnyLayout<AppCtx, HasAppCtx extends boolean> = LayoutWithView<AppCtx, any, HasAppCtx, any, any>;
+
+// Layout, совпавший с url вместе со страницей (от внешнего к внутреннему)
+export interface MatchedLayout<AppCtx = any, HasAppCtx extends boolean = any> {
+  layout: PageDefinition<AppCtx, any, any, HasAppCtx, any>;
+  params: RouteParams;
+  search: Record<string, unknown>;
+  // Ключ данных layout'а: при навигации данные переиспользуются, пока ключ не изменился
+  key: string;
 }
 
 // =======================
 // Contract API
 export type Contract<AppCtx, HasAppCtx extends boolean = false> = {
   // Перегрузка для извлечения типа из конкретной функции page
-  definePage<Path extends string, TPageFunction extends PageFunction<AppCtx, ParamsFromPath<Path>, any, HasAppCtx>>(
+  // Выводится тип результата, а не вся функция: иначе Search и Params не успевают вывестись
+  // из парсеров и схемы до контекстной типизации аргументов page.
+  // params - схема приведения params: при ошибке страница отдает not-found, page() не вызывается.
+  // beforeEach - guards страницы, получают уже приведенные params.
+  // cache - серверный кеш результата page() (кешируются только ok и not-found).
+  // getStaticPaths - params, с которыми страница рендерится в prerender (страницы без params рендерятся всегда)
+  definePage<
+    Path extends string,
+    Search extends Record<string, unknown> = {},
+    Params = ParamsFromPath<Path>,
+    TResult extends PageResult<any> | Promise<PageResult<any>> = PageResult<any>
+  >(
     page: {
       path: Path;
-      page: TPageFunction;
+      parent?: AnyLayout<AppCtx, HasAppCtx>;
+      params?: ParamsSchema<ParamsFromPath<Path>, Params>;
+      search?: SearchShape<Search>;
+      beforeEach?: Guards<AppCtx, Params, HasAppCtx, Search>;
+      cache?: PageCacheOptions<PageArgs<AppCtx, Params, HasAppCtx, Search>>;
+      getStaticPaths?: () => HrefParams<Path>[] | Promise<HrefParams<Path>[]>;
+      page: (args: PageArgs<AppCtx, Params, HasAppCtx, Search>) => TResult;
     }
-  ): PageWithView<AppCtx, Path, ExtractRouteCtx<TPageFunction>, HasAppCtx, TPageFunction>;
+  ): PageWithView<
+    AppCtx,
+    Path,
+    ExtractRouteCtx<(args: PageArgs<AppCtx, Params, HasAppCtx, Search>) => TResult>,
+    HasAppCtx,
+    Search,
+    (args: PageArgs<AppCtx, Params, HasAppCtx, Search>) => TResult
+  >;
   
   // Перегрузка с явным указанием RouteCtx
-  definePage<Path extends string, RouteCtx = unknown>(
-    page: PageDefinition<AppCtx, Path, RouteCtx, HasAppCtx>
-  ): PageWithView<AppCtx, Path, RouteCtx, HasAppCtx, PageDefinition<AppCtx, Path, RouteCtx, HasAppCtx>['page']>;
-
-  createRoutes(): PageDefinition<AppCtx, any, any, HasAppCtx>[];
-
+  definePage<Path extends string, RouteCtx = unknown, Search = {}, Params = ParamsFromPath<Path>>(
+    page: PageDefinition<AppCtx, Path, RouteCtx, HasAppCtx, Search, Params>
+  ): PageWithView<AppCtx, Path, RouteCtx, HasAppCtx, Search, PageDefinition<AppCtx, Path, RouteCtx, HasAppCtx, Search, Params>['page']>;
+
+  // Layout с данными и view, оборачивающий дочерние страницы.
+  // page не обязателен: layout без данных получает pageContext { type: 'ok' }.
+  // beforeEach - guards всех дочерних страниц.
+  // page() layout'а - загрузка данных, а не проверка доступа: при переходе внутри layout'а клиент
+  // передает его ключ в keep (/api/page?keep=...), и page() не вызывается вместе с его redirect'ом,
+  // not-found или ошибкой. Ключ предсказуем, поэтому закрывать раздел нужно в beforeEach - guards
+  // выполняются при каждом запросе
+  defineLayout<
+    Path extends string,
+    Search extends Record<string, unknown> = {},
+    TResult extends PageResult<any> | Promise<PageResult<any>> = { type: 'ok' }
+  >(
+    layout: {
+      path: Path;
+      parent?: AnyLayout<AppCtx, HasAppCtx>;
+      search?: SearchShape<Search>;
+      beforeEach?: Guards<AppCtx, ParamsFromPath<Path>, HasAppCtx, Search>;
+      page?: (args: PageArgs<AppCtx, ParamsFromPath<Path>, HasAppCtx, Search>) => TResult;
+    }
+  ): LayoutWithView<
+    AppCtx,
+    Path,
+    HasAppCtx,
+    Search,
+    (args: PageArgs<AppCtx, ParamsFromPath<Path>, HasAppCtx, Search>) => TResult
+  >;
+
+  // Серверная функция с валидацией input (POST /api/action/:name).
+  // Без схемы input action вызывается без аргументов
+  defineAction<Name extends string, Input = void, ValidInput = Input, Output = void>(action: {
+    name: Name;
+    input?: ActionInputSchema<Input, ValidInput>;
+    handler: (args: ActionArgs<AppCtx, ValidInput, HasAppCtx>) => Output | Promise<Output>;
+  }): Action<Name, Input, Awaited<Output>>;
+
+  // Guard для всех страниц контракта (выполняется раньше guards layout'ов и страниц)
+  beforeEach(guard: Guard<AppCtx, Record<string, unknown>, HasAppCtx, Record<string, unknown>>): void;
+
+  // Удаление закешированных результатов страниц по тегам и/или pathname
+  invalidateCache(target: CacheInvalidation): Promise<void>;
+
+  createRoutes(): PageDefinition<AppCtx, any, any, HasAppCtx, any>[];
+
+  // url может содержать query string и hash - они не участвуют в сопоставлении пути
   matchRoute(url: string): {
-    page: PageDefinition<AppCtx, any, any, HasAppCtx> | null;
-    params: Record<string, string>;
+    page: PageDefinition<AppCtx, any, any, HasAppCtx, any> | null;
+    params: RouteParams;
+    search: Record<string, unknown>;
+    layouts: MatchedLayout<AppCtx, HasAppCtx>[];
   };
 } & (HasAppCtx extends true
-  ? { getAppContext: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx> }
+  ? {
+      getAppContext: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx>;
+      // appContext в любом компоненте приложения
+      useAppContext: () => AppCtx;
+    }
   : {});
 
 // =======================
-// Вспомогательная функция для сопоставления пути и извлечения params
-function matchPath(pathPattern: string, url: string): Record<string, string> | null {
-  const pathSegments = pathPattern.split('/').filter(Boolean);
-  const urlSegments = url.split('/').filter(Boolean);
+// Вспомогательные функции для работы с путями
+// Построение url по pattern, params и search (обратная операция к matchRoute)
+export function buildHref(
+  pathPattern: string,
+  params: Record<string, unknown> = {},
+  search: Record<string, unknown> = {}
+): string {
+  const segments: string[] = [];
+  for (const segment of splitPath(pathPattern)) {
+    const key = segmentParamName(segment);
+    if (key === null) {
+      segments.push(segment);
+      continue;
+    }
 
-  if (pathSegments.length !== urlSegments.length) return null;
+    const value = params[key];
+    if (value === undefined || value === null) {
+      if (segment.startsWith(':') && !segment.endsWith('?')) {
+        throw new Error(`Missing param "${key}" for path "${pathPattern}"`);
+      }
+      continue;
+    }
+    const values = Array.isArray(value) ? value : [value];
+    segments.push(...values.map((v) => encodeURIComponent(String(v))));
+  }
 
-  const params: Record<string, string> = {};
-  for (let i = 0; i < pathSegments.length; i++) {
-    const ps = pathSegments[i];
-    const us = urlSegments[i];
+  const query = new URLSearchParams();
+  for (const key of Object.keys(search)) {
+    const value = search[key];
+    if (value === undefined || value === null) continue;
+    for (const v of Array.isArray(value) ? value : [value]) {
+      query.append(key, String(v));
+    }
+  }
+
+  const queryString = query.toString();
+  return `/${segments.join('/')}${queryString ? `?${queryString}` : ''}`;
+}
 
-    if (ps.startsWith(':')) {
-      const key = ps.slice(1);
-      params[key] = decodeURIComponent(us);
-    } else if (ps !== us) {
-      return null;
+// Params, относящиеся к pattern (для layout'а - подмножество params страницы)
+function pickParams(pathPattern: string, params: RouteParams): RouteParams {
+  const picked: RouteParams = {};
+  for (const segment of splitPath(pathPattern)) {
+    const key = segmentParamName(segment);
+    if (key !== null && key in params) {
+      picked[key] = params[key];
     }
   }
+  return picked;
+}
 
-  return params;
+// Проверка, что pattern начинается с pattern родителя (посегментно)
+function isPathPrefix(parentPattern: string, pathPattern: string): boolean {
+  const parentSegments = splitPath(parentPattern);
+  const pathSegments = splitPath(pathPattern);
+  return parentSegments.every((segment, i) => pathSegments[i] === segment);
+}
+
+// Разделение url на pathname и query (hash отбрасывается)
+function splitUrl(url: string): { pathname: string; query: URLSearchParams } {
+  const withoutHash = url.split('#')[0];
+  const queryIndex = withoutHash.indexOf('?');
+  if (queryIndex === -1) {
+    return { pathname: withoutHash, query: new URLSearchParams() };
+  }
+  return {
+    pathname: withoutHash.slice(0, queryIndex),
+    query: new URLSearchParams(withoutHash.slice(queryIndex + 1)),
+  };
+}
+
+// Разбор query по объявленной форме страницы
+function parseSearch(shape: SearchShape | undefined, query: URLSearchParams): Record<string, unknown> {
+  const search: Record<string, unknown> = {};
+  if (!shape) return search;
+  for (const key of Object.keys(shape)) {
+    const all = query.getAll(key);
+    search[key] = shape[key](all[0], all);
+  }
+  return search;
+}
+
+// Размер клиентского кеша результатов matchRoute
+const MATCH_CACHE_SIZE = 500;
+
+// Настройки серверного кеша страниц
+export interface ContractCacheConfig {
+  // Хранилище (по умолчанию LRU в памяти процесса)
+  store?: PageCacheStore;
 }
 
 // =======================
 // Перегрузки initContract
 export function initContract<AppCtx>(
-  config: { appContext: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx> }
+  config: { appContext: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx>; cache?: ContractCacheConfig }
 ): Contract<AppCtx, true>;
 
 export function initContract<AppCtx>(
-  config?: { appContext?: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx> }
+  config?: { appContext?: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx>; cache?: ContractCacheConfig }
 ): Contract<AppCtx, false>;
 
 // =======================
 // Реализация initContract
 export function initContract<AppCtx>(
-  config?: { appContext?: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx> }
+  config?: { appContext?: (ctx: RuntimeContext) => AppCtx | Promise<AppCtx>; cache?: ContractCacheConfig }
 ) {
   const pages: PageDefinition<AppCtx, any, any, any>[] = [];
+  // Внутренние определения layout'ов по объекту, возвращенному defineLayout
+  const layoutDefinitions = new Map<object, any>();
+  // Guards уровня контракта (beforeEach)
+  const guards: Guard<AppCtx, any, any, any>[] = [];
+  // Actions по имени
+  const actions = new Map<string, any>();
+  // Кеш результатов page() (используется сервером)
+  const pageCache = createPageCache(config?.cache?.store || createMemoryCacheStore());
+
+  function resolveParent(path: string, parent: object | undefined) {
+    if (!parent) return undefined;
+    const parentDefinition = layoutDefinitions.get(parent);
+    if (!parentDefinition) {
+      throw new Error(`Parent of "${path}" must be created with defineLayout of the same contract`);
+    }
+    if (!isPathPrefix(parentDefinition.path, path)) {
+      throw new Error(`Path "${path}" must start with parent layout path "${parentDefinition.path}"`);
+    }
+    return parentDefinition;
+  }
 
   function definePage<Path extends string, TPageFunction = any>(
     page: {
       path: Path;
+      parent?: object;
+      params?: ParamsSchema<any, any>;
+      search?: SearchShape;
+      beforeEach?: Guards<any, any, any, any>;
+      cache?: PageCacheOptions;
+      getStaticPaths?: () => any[] | Promise<any[]>;
       page: TPageFunction;
     }
   ): any {
     // Создаем объект страницы с полем component, которое будет заполнено через defineView
     const pageDefinition: any = {
       path: page.path,
+      parent: resolveParent(page.path, page.parent),
+      params: page.params,
+      search: page.search,
+      beforeEach: toGuardList(page.beforeEach),
+      cache: page.cache,
+      getStaticPaths: page.getStaticPaths,
       page: page.page,
+      href: (params?: Record<string, unknown>, search?: Record<string, unknown>) =>
+        buildHref(page.path, params, search),
       component: undefined,
     };
     pages.push(pageDefinition);
+    resetMatcher();
     
-    const defineView = (component: any) => {
+    const defineView = (component: any, options: PageViewOptions = {}) => {
       // Сохраняем компонент в объект страницы
       pageDefinition.component = component;
+      pageDefinition.scroll = options.scroll;
+      // Закешированные результаты matchRoute содержат компонент страницы
+      matchCache.clear();
+      return component;
+    };
+
+    const defineErrorView = (component: any) => {
+      pageDefinition.errorComponent = component;
       return component;
     };
 
     return {
       path: page.path,
       page: page.page,
+      href: pageDefinition.href,
       defineView,
+      defineErrorView,
+      usePageContext: () => useRoutePageContext(pageDefinition, page.path),
     };
   }
 
+  function defineLayout<Path extends string>(
+    layout: {
+      path: Path;
+      parent?: object;
+      search?: SearchShape;
+      beforeEach?: Guards<any, any, any, any>;
+      page?: any;
+    }
+  ): any {
+    const layoutDefinition: any = {
+      path: layout.path,
+      parent: resolveParent(layout.path, layout.parent),
+      search: layout.search,
+      beforeEach: toGuardList(layout.beforeEach),
+      page: layout.page || (() => ({ type: 'ok' })),
+      component: undefined,
+    };
+
+    const defineView = (component: any) => {
+      layoutDefinition.component = component;
+      return component;
+    };
+
+    const result = {
+      path: layout.path,
+      page: layout.page,
+      defineView,
+      usePageContext: () => useRoutePageContext(layoutDefinition, layout.path),
+    };
+    layoutDefinitions.set(result, layoutDefinition);
+    return result;
+  }
+
+  function defineAction(action: { name: string; input?: ActionInputSchema<any, any>; handler: any }): any {
+    if (actions.has(action.name)) {
+      throw new Error(`Action "${action.name}" is already defined`);
+    }
+    actions.set(action.name, action);
+
+    return {
+      name: action.name,
+      run: (input?: unknown, options?: any) => runAction(action.name, input, options),
+    };
+  }
+
+  async function invalidateCache(target: CacheInvalidation) {
+    await pageCache.invalidate(target);
+  }
+
+  function beforeEach(guard: Guard<AppCtx, any, any, any>) {
+    guards.push(guard);
+  }
+
   function createRoutes() {
     return pages;
   }
 
+  // Цепочка layout'ов страницы от внешнего к внутреннему
+  function matchLayouts(page: any, params: RouteParams, query: URLSearchParams) {
+    const layouts: MatchedLayout<AppCtx, any>[] = [];
+    for (let layout = page.parent; layout; layout = layout.parent) {
+      const layoutParams = pickParams(layout.path, params);
+      const layoutSearch = parseSearch(layout.search, query);
+      layouts.unshift({
+        layout,
+        params: layoutParams,
+        search: layoutSearch,
+        key: JSON.stringify([layout.path, layoutParams, layoutSearch]),
+      });
+    }
+    return layouts;
+  }
+
+  // Матчер компилируется при первом matchRoute после регистрации страниц.
+  // На клиенте результаты дополнительно кешируются по url: AppComponent матчит url на каждом рендере
+  let matcher: CompiledMatcher<PageDefinition<AppCtx, any, any, any>> | null = null;
+  const matchCache = new Map<string, any>();
+
+  function resetMatcher() {
+    matcher = null;
+    matchCache.clear();
+  }
+
   function matchRoute(url: string) {
-    for (const page of pages) {
-      const params = matchPath(page.path, url);
-      if (params) {
-        return { page, params, component: (page as any).component };
+    const cached = matchCache.get(url);
+    if (cached) return cached;
+
+    const { pathname, query } = splitUrl(url);
+    if (!matcher) {
+      matcher = compileRoutes(pages);
+    }
+
+    const matched = matcher.match(pathname);
+    let result;
+    if (matched) {
+      const { route: page, params } = matched;
+      const search = parseSearch(page.search, query);
+      const layouts = matchLayouts(page, params, query);
+      result = { page, params, search, layouts, component: (page as any).component };
+    } else {
+      result = { page: null, params: {}, search: {}, layouts: [], component: undefined };
+    }
+
+    // На сервере набор url не ограничен, поэтому кеш только в браузере
+    if (typeof window !== 'undefined') {
+      if (matchCache.size >= MATCH_CACHE_SIZE) {
+        matchCache.delete(matchCache.keys().next().value as string);
       }
+      matchCache.set(url, result);
     }
-    return { page: null, params: {}, component: undefined };
+    return result;
   }
 
   const contract: any = {
     definePage,
+    defineLayout,
+    defineAction,
+    beforeEach,
+    invalidateCache,
     createRoutes,
     matchRoute,
+    // Для сервера (spa.ts): guards, actions и кеш страниц контракта
+    guards,
+    actions,
+    pageCache,
   };
 
   if (config?.appContext) {
     contract.getAppContext = config.appContext;
+    contract.useAppContext = () => useAppContext();
   }
 
   return contract;
 }
 
+// =======================
+// Params schema
+export type {
+  ParamsSchema,
+  InvalidParamsResult,
+  StandardSchemaV1,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+} from './params';
+
+// =======================
+// Actions
+export { ActionError, invalidateAppContext, revalidate } from './actions';
+export type { Action, ActionArgs, ActionInputSchema, RunActionOptions, RevalidateOptions } from './actions';
+
+// =======================
+// Cache
+export { createMemoryCacheStore } from './cache';
+export type { PageCacheOptions, PageCacheStore, PageCacheEntry, CacheInvalidation } from './cache';
+
+// =======================
+// Guards
+export type { Guard, GuardArgs, GuardResult } from './guards';
+
+// =======================
+// Deferred data
+export { defer, useDeferred, Deferred } from './defer';
+export type { DeferredStatus } from './defer';
+
+// =======================
+// Errors
+export { PageError } from './errors';
+export type { PageErrorResult } from './errors';
+
+// =======================
+// SEO
+export type { SeoMeta, SeoOptions, OpenGraphMeta, TwitterMeta } from './seo';
+
 // =======================
 // SPA Enhancement
-export { enhanceContractWithSPA, navigateTo } from './spa';
+export { enhanceContractWithSPA, navigateTo, createNavigate } from './spa';
+export type { NavigateTarget, TypedNavigate } from './spa';
 
+// =======================
+// Serialization
+export { defaultSerializer, jsonSerializer } from './serializer';
+export type { Serializer } from './serializer';
+
+// =======================
+// Request
+export type { CookieOptions, RuntimeResponse } from './request';
+
+// =======================
+// Document
+export { defaultDocument } from './document';
+export type { DocumentProps, DocumentRender } from './document';
+
+// =======================
+// Request handler
+export { toNodeHandler, toExpressMiddleware } from './node';
+export type { RequestHandler, RequestHandlerOptions } from './handler';
+
+// =======================
+// Prerender
+export type { PrerenderOptions, PrerenderResult, PrerenderedPage } from './prerender';
+
+// =======================
+// Hooks
+export { useAppContext, usePageContext, useParams } from './hooks';
+
+// =======================
+// Router
+export { prefetchPage, useNavigation } from './router';
+export type { Navigation } from './router';
+
+// =======================
+// Link
+export { Link } from './link';
+export type { LinkProps, LinkState, LinkPrefetch } from './link';
@@ -0,0 +1,184 @@
+// Link - ссылка на страницу контракта
+// Рендерит настоящий <a href>, поэтому работают middle-click, ctrl/cmd-click, target и
+// открытие в новой вкладке; обычный клик уходит в navigateTo. Может заранее загружать данные
+// страницы (prefetch) при наведении или при появлении ссылки во viewport
+
+import { getReact } from './react';
+import { getNavigation, normalizeUrl, prefetchPage, subscribeRouter } from './router';
+import { navigateTo, type NavigateTarget } from './spa';
+
+// =======================
+// Типы
+export interface LinkState {
+  // url ссылки совпадает с текущим (exact) или является его префиксом
+  isActive: boolean;
+  // Переход по этой ссылке загружается
+  isPending: boolean;
+}
+
+export type LinkPrefetch = 'none' | 'hover' | 'viewport';
+
+type TargetArgs<TPage> = TPage extends { href: (...args: infer Args) => string } ? Args : never;
+
+// params обязательны, если у path есть обязательные сегменты
+type LinkTargetProps<TPage> = TPage extends string
+  ? { to: TPage }
+  : TargetArgs<TPage> extends [infer Params, ...infer Rest]
+  ? { to: TPage; params: Params; search?: Rest extends [(infer Search)?] ? Search : never }
+  : TargetArgs<TPage> extends [(infer Params)?, (infer Search)?]
+  ? { to: TPage; params?: Params; search?: Search }
+  : { to: TPage };
+
+export type LinkProps<TPage extends NavigateTarget<any> | string> = LinkTargetProps<TPage> & {
+  prefetch?: LinkPrefetch;
+  // Активна только при полном совпадении pathname (по умолчанию - и для вложенных путей)
+  exact?: boolean;
+  // Опции перехода (по умолчанию - из defineApp)
+  replace?: boolean;
+  keepPreviousView?: boolean;
+  viewTransition?: boolean;
+  scroll?: boolean;
+  className?: string | ((state: LinkState) => string | undefined);
+  children?: any | ((state: LinkState) => any);
+  target?: string;
+  onClick?: (event: any) => void;
+  onMouseEnter?: (event: any) => void;
+  onFocus?: (event: any) => void;
+  // Остальные атрибуты <a>
+  [attribute: string]: any;
+};
+
+// =======================
+function pathnameOf(url: string) {
+  return new URL(url, window.location.origin).pathname;
+}
+
+function isExternal(href: string) {
+  try {
+    return new URL(href, window.location.origin).origin !== window.location.origin;
+  } catch {
+    return false;
+  }
+}
+
+// Состояние SSR: сервер не знает текущий url клиента
+const INITIAL_STATE: LinkState = { isActive: false, isPending: false };
+
+function getLinkState(href: string, exact: boolean): LinkState {
+  if (typeof window === 'undefined') {
+    return INITIAL_STATE;
+  }
+
+  const pathname = pathnameOf(href);
+  const current = window.location.pathname;
+  const isActive =
+    current === pathname || (!exact && pathname !== '/' && current.startsWith(pathname.replace(/\/$/, '') + '/'));
+  const navigation = getNavigation();
+  const isPending =
+    navigation.state === 'loading' && !navigation.revalidation && navigation.location === normalizeUrl(href);
+  return { isActive, isPending };
+}
+
+// Клик, который браузер должен обработать сам (новая вкладка, скачивание и т.п.)
+function isBrowserHandledClick(event: any, target: string | undefined, rest: Record<string, any>) {
+  return (
+    event.defaultPrevented ||
+    event.button !== 0 ||
+    event.metaKey ||
+    event.ctrlKey ||
+    event.shiftKey ||
+    event.altKey ||
+    (target !== undefined && target !== '_self') ||
+    rest.download !== undefined
+  );
+}
+
+// =======================
+export function Link<TPage extends NavigateTarget<any> | string>(props: LinkProps<TPage>) {
+  const { useState, useEffect, createElement } = getReact();
+  const {
+    to,
+    params,
+    search,
+    prefetch = 'none',
+    exact = false,
+    replace,
+    keepPreviousView,
+    viewTransition,
+    scroll,
+    className,
+    children,
+    target,
+    onClick,
+    onMouseEnter,
+    onFocus,
+    ...rest
+  } = props as LinkProps<any> & { params?: any; search?: any };
+
+  const href: string = typeof to === 'string' ? to : to.href(params, search);
+  const external = typeof window !== 'undefined' && isExternal(href);
+
+  // Первый рендер совпадает с SSR (гидратация не исправляет расхождения атрибутов),
+  // настоящее состояние вычисляет эффект после монтирования
+  const [state, setState] = useState(INITIAL_STATE);
+  const [element, setElement] = useState(null);
+
+  useEffect(() => {
+    const update = () => {
+      const next = getLinkState(href, exact);
+      setState((prev: LinkState) =>
+        prev.isActive === next.isActive && prev.isPending === next.isPending ? prev : next
+      );
+    };
+    update();
+    return subscribeRouter(update);
+  }, [href, exact]);
+
+  // Prefetch при появлении во viewport
+  useEffect(() => {
+    if (prefetch !== 'viewport' || !element || external || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some((entry) => entry.isIntersecting)) {
+        observer.disconnect();
+        prefetchPage(href);
+      }
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [prefetch, element, href, external]);
+
+  const prefetchOnIntent = () => {
+    if (prefetch !== 'none' && !external) {
+      prefetchPage(href);
+    }
+  };
+
+  return createElement(
+    'a',
+    {
+      ...rest,
+      ref: setElement,
+      href,
+      target,
+      className: typeof className === 'function' ? className(state) : className,
+      'aria-current': state.isActive ? 'page' : undefined,
+      'data-pending': state.isPending ? '' : undefined,
+      onClick: (event: any) => {
+        onClick?.(event);
+        if (external || isBrowserHandledClick(event, target, rest)) return;
+        event.preventDefault();
+        navigateTo(href, { replace, keepPreviousView, viewTransition, scroll });
+      },
+      // При наведении/фокусе данные загружаются и для prefetch="viewport" (если еще не загружены)
+      onMouseEnter: (event: any) => {
+        onMouseEnter?.(event);
+        prefetchOnIntent();
+      },
+      onFocus: (event: any) => {
+        onFocus?.(event);
+        prefetchOnIntent();
+      },
+    },
+    typeof children === 'function' ? children(state) : children
+  );
+}
@@ -0,0 +1,43 @@
+// Загрузка данных /api/page: layout'ы, которые уже есть у клиента (keep)
+
+import { describe, expect, it, vi } from 'vitest';
+import { initContract } from './index';
+import { createPageLoader } from './loader';
+import { createRuntimeResponse } from './request';
+
+describe('keep', () => {
+  // Раздел /admin закрыт guard'ом layout'а, page() layout'а загружает его данные
+  function createContract() {
+    const contract = initContract({ appContext: async (runtime) => ({ admin: runtime.cookies?.role === 'admin' }) });
+    const layoutPage = vi.fn(async () => ({ type: 'ok' as const, data: { menu: ['users'] } }));
+    const admin = contract.defineLayout({
+      path: '/admin',
+      beforeEach: [({ appContext }) => (appContext.admin ? undefined : { type: 'redirect', to: '/login' })],
+      page: layoutPage,
+    });
+    contract.definePage({ parent: admin, path: '/admin/users', page: async () => ({ type: 'ok', data: { users: [] } }) });
+    const layoutKey = contract.matchRoute('/admin/users').layouts[0]!.key;
+    return { contract, layoutPage, layoutKey };
+  }
+
+  const request = (role: string) => ({
+    request: new Request('http://app.test/api/page', { headers: { Cookie: `role=${role}` } }),
+    response: createRuntimeResponse(),
+  });
+
+  it('skips page() of kept layouts', async () => {
+    const { contract, layoutPage, layoutKey } = createContract();
+    const { loadPageResponse } = createPageLoader(contract, true);
+    const { status, data } = await loadPageResponse('/admin/users', new Set([layoutKey]), false, request('admin'));
+    expect(status).toBe(200);
+    expect(data.layouts).toEqual({});
+    expect(layoutPage).not.toHaveBeenCalled();
+  });
+
+  it('runs layout guards for kept layouts', async () => {
+    const { contract, layoutKey } = createContract();
+    const { loadPageResponse } = createPageLoader(contract, true);
+    const { data } = await loadPageResponse('/admin/users', new Set([layoutKey]), false, request('user'));
+    expect(data.page).toMatchObject({ type: 'redirect', to: '/login' });
+  });
+});
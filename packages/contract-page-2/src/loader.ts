@@ -0,0 +1,323 @@
+// Загрузка данных страниц на сервере
+// Общая для SSR, /api/page и prerender: appContext, params, guards, page() страницы и layout'ов
+
+import type { Contract, RuntimeContext, RuntimeServices } from './index';
+import type { ActionResponse } from './actions';
+import { dehydrateResult, settleDeferred } from './defer';
+import { normalizeError, PageError } from './errors';
+import { runGuards, type PendingGuard } from './guards';
+import { validateParams, type InvalidParamsResult } from './params';
+import { serverRuntime, type ServerRequest } from './request';
+
+// Ответ /api/page (и JSON prerender'а)
+export interface PageData {
+  page: any;
+  layouts: Record<string, any>;
+  params: any;
+  // appContext запроса (только в ответе /api/page?appContext=1)
+  appContext?: unknown;
+}
+
+export interface PageLoaderOptions {
+  // Сервисы сервера, которые получают getAppContext, guards, page() и actions (runtime.services)
+  services?: RuntimeServices | undefined;
+}
+
+export function createPageLoader<AppCtx>(
+  contract: Contract<AppCtx, any>,
+  isProduction: boolean,
+  options: PageLoaderOptions = {}
+) {
+  const contractWithGetAppContext = contract as any;
+  const { services } = options;
+
+  // runtime-контекст запроса. Без server (prerender, testing) - только url и services
+  const createRuntime = (url: string, server?: ServerRequest): RuntimeContext => ({
+    url,
+    ...(services ? { services } : {}),
+    ...(server ? serverRuntime(server) : {}),
+  });
+
+  // Вызов page() страницы или layout'а.
+  // Брошенное исключение и возвращенный { type: 'error' } приводятся к PageErrorResult
+  const callPage = async (
+    definition: any,
+    runtime: RuntimeContext,
+    appContext: AppCtx | undefined,
+    params: any,
+    search: any
+  ) => {
+    try {
+      const result =
+        'getAppContext' in contractWithGetAppContext && contractWithGetAppContext.getAppContext
+          ? await definition.page({ runtime, appContext, params, search })
+          : await definition.page({ runtime, params, search });
+      return result?.type === 'error' ? normalizeError(result, isProduction) : result;
+    } catch (e) {
+      if (!isProduction) {
+        console.error('Page Error:', e);
+      }
+      return normalizeError(e, isProduction);
+    }
+  };
+
+  // page() страницы через серверный кеш, если у страницы задана опция cache.
+  // Кешируются только ok и not-found, ошибки и redirect'ы всегда вычисляются заново
+  const callPageCached = async (
+    definition: any,
+    runtime: RuntimeContext,
+    appContext: AppCtx | undefined,
+    params: any,
+    search: any
+  ) => {
+    const cacheOptions = definition.cache;
+    const pageCache = contractWithGetAppContext.pageCache;
+    if (!cacheOptions || !pageCache) {
+      return callPage(definition, runtime, appContext, params, search);
+    }
+
+    try {
+      const hasAppContext = 'getAppContext' in contractWithGetAppContext && !!contractWithGetAppContext.getAppContext;
+      const args = hasAppContext ? { runtime, appContext, params, search } : { runtime, params, search };
+      // Ключ по умолчанию учитывает appContext: результат (и общая загрузка параллельных запросов)
+      // одного пользователя не отдается другому
+      const defaultKey = hasAppContext ? [params, search, appContext] : [params, search];
+      const key = JSON.stringify([definition.path, cacheOptions.key ? cacheOptions.key(args) : defaultKey]);
+      const tags = typeof cacheOptions.tags === 'function' ? cacheOptions.tags(args) : cacheOptions.tags || [];
+
+      return await pageCache.load(
+        key,
+        {
+          ttl: cacheOptions.ttl,
+          staleWhileRevalidate: cacheOptions.staleWhileRevalidate || 0,
+          path: runtime.url.split(/[?#]/)[0],
+          tags,
+          shouldCache: (result: any) => result?.type === 'ok' || result?.type === 'not-found',
+          onError: (e: unknown) => {
+            if (!isProduction) {
+              console.error('Page Cache Error:', e);
+            }
+          },
+        },
+        () => callPage(definition, runtime, appContext, params, search)
+      );
+    } catch (e) {
+      return normalizeError(e, isProduction);
+    }
+  };
+
+  // Получение appContext запроса (undefined, если getAppContext не задан)
+  const loadAppContext = async (runtime: RuntimeContext): Promise<AppCtx | undefined> => {
+    if (!('getAppContext' in contractWithGetAppContext) || !contractWithGetAppContext.getAppContext) {
+      return undefined;
+    }
+    return contractWithGetAppContext.getAppContext(runtime);
+  };
+
+  // appContext и данные страницы. Ошибка getAppContext отдается как ошибка страницы
+  const loadRequestData = async (
+    url: string,
+    matched: ReturnType<typeof contract.matchRoute>,
+    keep: Set<string>,
+    server?: ServerRequest
+  ) => {
+    const runtime = createRuntime(url, server);
+    let appContext: AppCtx | undefined;
+    try {
+      appContext = await loadAppContext(runtime);
+    } catch (e) {
+      if (!isProduction) {
+        console.error('App Context Error:', e);
+      }
+      const data = { page: normalizeError(e, isProduction) as any, layouts: {}, params: matched.params as any };
+      return { appContext, data };
+    }
+    return { appContext, data: await loadPageData(matched, runtime, appContext, keep) };
+  };
+
+  // Guards контракта, layout'ов и страницы с аргументами для каждого
+  const collectGuards = (
+    matched: ReturnType<typeof contract.matchRoute>,
+    runtime: RuntimeContext,
+    appContext: AppCtx | undefined,
+    params: any
+  ): PendingGuard[] => {
+    const guardArgs = (guardParams: any, search: any) =>
+      'getAppContext' in contractWithGetAppContext && contractWithGetAppContext.getAppContext
+        ? { runtime, appContext, params: guardParams, search }
+        : { runtime, params: guardParams, search };
+
+    return [
+      ...(contractWithGetAppContext.guards || []).map((guard: any) => ({
+        guard,
+        args: guardArgs(params, matched.search),
+      })),
+      ...matched.layouts.flatMap((layout) =>
+        ((layout.layout as any).beforeEach || []).map((guard: any) => ({
+          guard,
+          args: guardArgs(layout.params, layout.search),
+        }))
+      ),
+      ...((matched.page as any).beforeEach || []).map((guard: any) => ({
+        guard,
+        args: guardArgs(params, matched.search),
+      })),
+    ];
+  };
+
+  // Загрузка данных страницы и ее layout'ов (параллельно).
+  // keep - ключи layout'ов, данные которых уже есть у клиента. Их присылает клиент, поэтому
+  // page() layout'а из keep (и его redirect/not-found/ошибка) пропускается, а guards - нет.
+  // Невалидные params дают not-found с issues, page() при этом не вызывается.
+  // Guard, вернувший результат, отменяет загрузку: его результат становится результатом страницы
+  const loadPageData = async (
+    matched: ReturnType<typeof contract.matchRoute>,
+    runtime: RuntimeContext,
+    appContext: AppCtx | undefined,
+    keep: Set<string>
+  ) => {
+    const validation = await validateParams((matched.page as any).params, matched.params);
+    if (!validation.ok) {
+      const invalid: InvalidParamsResult = {
+        type: 'not-found',
+        reason: 'invalid-params',
+        issues: validation.issues,
+      };
+      return {
+        page: invalid,
+        layouts: {},
+        params: null,
+      };
+    }
+
+    let blockedByGuard;
+    try {
+      blockedByGuard = await runGuards(collectGuards(matched, runtime, appContext, validation.params));
+    } catch (e) {
+      if (!isProduction) {
+        console.error('Guard Error:', e);
+      }
+      blockedByGuard = normalizeError(e, isProduction);
+    }
+    if (blockedByGuard) {
+      return { page: blockedByGuard as any, layouts: {}, params: validation.params };
+    }
+
+    const layoutsToLoad = matched.layouts.filter((layout) => !keep.has(layout.key));
+    const [pageResult, ...layoutResults] = await Promise.all([
+      callPageCached(matched.page, runtime, appContext, validation.params, matched.search),
+      ...layoutsToLoad.map((layout) => callPage(layout.layout, runtime, appContext, layout.params, layout.search)),
+    ]);
+
+    const layouts: Record<string, any> = {};
+    layoutsToLoad.forEach((layout, i) => {
+      layouts[layout.key] = layoutResults[i];
+    });
+
+    // Redirect, ошибка или not-found внешнего layout'а важнее результата страницы
+    const blocking = layoutResults.find((result: any) => result.type !== 'ok');
+    if (blocking) {
+      return {
+        page: blocking.type === 'redirect' || blocking.type === 'error' ? blocking : { type: 'not-found' },
+        layouts,
+        params: validation.params,
+      };
+    }
+    return { page: pageResult, layouts, params: validation.params };
+  };
+
+  // Ответ GET /api/page?url=...: статус и данные страницы для JSON.
+  // includeAppContext - добавить appContext (клиент загружает его тем же запросом, когда он устарел)
+  const loadPageResponse = async (
+    url: string,
+    keep: Set<string>,
+    includeAppContext: boolean,
+    server?: ServerRequest
+  ): Promise<{ status: number; data: PageData }> => {
+    const matched = contract.matchRoute(url);
+    if (!matched.page) {
+      const data: PageData = { page: { type: 'not-found' }, layouts: {}, params: null };
+      if (includeAppContext) {
+        try {
+          const appContext = await loadAppContext(createRuntime(url, server));
+          if (appContext !== undefined) data.appContext = appContext;
+        } catch (e) {
+          if (!isProduction) {
+            console.error('App Context Error:', e);
+          }
+        }
+      }
+      return { status: 404, data };
+    }
+
+    const { appContext, data: loaded } = await loadRequestData(url, matched, keep, server);
+    const data = await serializePageData(loaded, isProduction);
+    if (includeAppContext && appContext !== undefined) {
+      data.appContext = appContext;
+    }
+    return { status: pageDataStatus(data), data };
+  };
+
+  // Ответ POST /api/action/:name { input, url }
+  const runActionRequest = async (
+    name: string,
+    body: any,
+    server?: ServerRequest
+  ): Promise<{ status: number; body: ActionResponse }> => {
+    const action = (contractWithGetAppContext.actions as Map<string, any> | undefined)?.get(name);
+    if (!action) {
+      const error = normalizeError(new PageError(404, `Action "${name}" not found`), isProduction);
+      return { status: 404, body: { error } };
+    }
+
+    const runtime = createRuntime(typeof body?.url === 'string' ? body.url : '/', server);
+    try {
+      const validation = await validateParams(action.input, body?.input);
+      if (!validation.ok) {
+        return {
+          status: 400,
+          body: { error: { type: 'error', status: 400, message: 'Invalid action input', issues: validation.issues } },
+        };
+      }
+
+      const appContext = await loadAppContext(runtime);
+      const output = await action.handler(
+        'getAppContext' in contractWithGetAppContext && contractWithGetAppContext.getAppContext
+          ? { input: validation.params, appContext, runtime }
+          : { input: validation.params, runtime }
+      );
+      return { status: 200, body: { output: output === undefined ? null : output } };
+    } catch (e) {
+      if (!isProduction) {
+        console.error('Action Error:', e);
+      }
+      const error = normalizeError(e, isProduction);
+      return { status: error.status, body: { error } };
+    }
+  };
+
+  return { createRuntime, loadAppContext, loadRequestData, loadPageData, loadPageResponse, runActionRequest };
+}
+
+export type PageLoader = ReturnType<typeof createPageLoader>;
+
+// HTTP статус данных страницы: redirect и ошибка - свой статус, невалидные params - 400, not-found - 404
+export function pageDataStatus(data: PageData): number {
+  if (data.page.type === 'redirect') return data.page.status || 302;
+  if (data.page.type === 'error') return data.page.status;
+  if (data.params === null) return 400;
+  if (data.page.type === 'not-found') return 404;
+  return 200;
+}
+
+// Данные страницы для JSON: отложенные данные отдаются уже готовыми
+export async function serializePageData(data: PageData, isProduction: boolean): Promise<PageData> {
+  await settleDeferred([data.page, ...Object.values(data.layouts)]);
+  return {
+    ...data,
+    page: dehydrateResult(data.page, isProduction),
+    layouts: Object.fromEntries(
+      Object.entries(data.layouts).map(([key, layoutContext]) => [key, dehydrateResult(layoutContext, isProduction)])
+    ),
+  };
+}
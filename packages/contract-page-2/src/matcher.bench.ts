@@ -0,0 +1,37 @@
+// Стоимость сопоставления не зависит от количества роутов: 10, 1 000 и 5 000 роутов
+// сопоставляются за сравнимое время (раньше роуты перебирались по очереди).
+// Замер, а не тест: время зависит от нагрузки машины (npm run bench)
+
+import { bench, describe } from 'vitest';
+import { compileRoutes } from './matcher';
+
+// Роуты разделов: статические, динамические, необязательные и splat-сегменты
+function createRoutes(count: number) {
+  const routes: Array<{ path: string }> = [];
+  for (let i = 0; routes.length < count; i++) {
+    routes.push(
+      { path: `/section-${i}` },
+      { path: `/section-${i}/:id` },
+      { path: `/section-${i}/:id/items/:item?` },
+      { path: `/section-${i}/docs/*rest` }
+    );
+  }
+  return routes.slice(0, count);
+}
+
+describe('compileRoutes().match', () => {
+  for (const count of [10, 1000, 5000]) {
+    const routes = createRoutes(count);
+    const matcher = compileRoutes(routes);
+    // url последних зарегистрированных роутов - худший случай для перебора
+    const urls = routes
+      .slice(-4)
+      .map(({ path }) => path.replace(':id', '42').replace(':item?', '7').replace('*rest', 'a/b/c'));
+
+    bench(`${count} routes`, () => {
+      for (const url of urls) {
+        matcher.match(url);
+      }
+    });
+  }
+});
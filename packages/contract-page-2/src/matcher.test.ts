@@ -0,0 +1,69 @@
+// Специфичность роутов (static > dynamic > optional > splat) независимо от порядка регистрации.
+// Скорость сопоставления при росте числа роутов - в matcher.bench.ts (npm run bench)
+
+import { describe, expect, it } from 'vitest';
+import { initContract } from './index';
+import { compileRoutes } from './matcher';
+
+const matchPath = (paths: string[], url: string) => compileRoutes(paths.map((path) => ({ path }))).match(url);
+
+describe('specificity', () => {
+  it('prefers static segments to a dynamic route registered first', () => {
+    expect(matchPath(['/:slug', '/episodes'], '/episodes')).toEqual({ route: { path: '/episodes' }, params: {} });
+    expect(matchPath(['/:slug', '/episodes'], '/about')).toEqual({ route: { path: '/:slug' }, params: { slug: 'about' } });
+  });
+
+  it('ranks a route ending on the segment above optional and splat', () => {
+    const paths = ['/docs/*rest', '/docs/:page?', '/docs'];
+    expect(matchPath(paths, '/docs')?.route.path).toBe('/docs');
+    expect(matchPath(paths.slice(0, 2), '/docs')).toEqual({ route: { path: '/docs/:page?' }, params: {} });
+    expect(matchPath(['/docs/*rest'], '/docs')).toEqual({ route: { path: '/docs/*rest' }, params: { rest: [] } });
+  });
+
+  it('prefers an optional segment to a splat', () => {
+    const paths = ['/docs/*rest', '/docs/:page?'];
+    expect(matchPath(paths, '/docs/intro')).toEqual({ route: { path: '/docs/:page?' }, params: { page: 'intro' } });
+    expect(matchPath(paths, '/docs/guide/intro')).toEqual({
+      route: { path: '/docs/*rest' },
+      params: { rest: ['guide', 'intro'] },
+    });
+  });
+
+  it('backtracks from a static branch that does not match to the end', () => {
+    const paths = ['/a/b/d', '/a/:x/c'];
+    expect(matchPath(paths, '/a/b/d')?.route.path).toBe('/a/b/d');
+    expect(matchPath(paths, '/a/b/c')).toEqual({ route: { path: '/a/:x/c' }, params: { x: 'b' } });
+    expect(matchPath(paths, '/a/b')).toBeNull();
+  });
+
+  it('decodes dynamic and splat segments', () => {
+    expect(matchPath(['/files/*path'], '/files/a%20b/c')?.params).toEqual({ path: ['a b', 'c'] });
+    expect(matchPath(['/users/:name'], '/users/%D0%B8%D0%BC%D1%8F')?.params).toEqual({ name: 'имя' });
+  });
+
+  it('ranks pages of a contract the same way', () => {
+    const contract = initContract();
+    contract.definePage({ path: '/:slug', page: async () => ({ type: 'ok', data: {} }) });
+    contract.definePage({ path: '/episodes', page: async () => ({ type: 'ok', data: {} }) });
+    expect(contract.matchRoute('/episodes').page?.path).toBe('/episodes');
+    expect(contract.matchRoute('/pilot').params).toEqual({ slug: 'pilot' });
+  });
+});
+
+describe('compileRoutes', () => {
+  it('matches the last of 5 000 registered routes', () => {
+    const routes = Array.from({ length: 1250 }, (_, i) => [
+      { path: `/section-${i}` },
+      { path: `/section-${i}/:id/items/:item?` },
+      { path: `/section-${i}/docs/*rest` },
+      { path: `/section-${i}/:id` },
+    ]).flat();
+    const matcher = compileRoutes(routes);
+    expect(matcher.match('/section-1249/42/items/7')).toEqual({
+      route: { path: '/section-1249/:id/items/:item?' },
+      params: { id: '42', item: '7' },
+    });
+    expect(matcher.match('/section-1249/docs/a/b')?.params).toEqual({ rest: ['a', 'b'] });
+    expect(matcher.match('/section-1250')).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+// Компилируемый матчер роутов
+// Pattern'ы страниц собираются в дерево сегментов один раз (после регистрации страниц),
+// поэтому стоимость сопоставления зависит от глубины url, а не от количества роутов
+
+import type { RouteParams } from './index';
+
+// =======================
+// Сегменты pattern'а
+export function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+// Имя параметра сегмента pattern ('*rest' -> 'rest', ':id?' -> 'id') или null для статического сегмента
+export function segmentParamName(segment: string): string | null {
+  if (segment.startsWith('*')) return segment.slice(1);
+  if (segment.startsWith(':')) return segment.endsWith('?') ? segment.slice(1, -1) : segment.slice(1);
+  return null;
+}
+
+// =======================
+// Дерево сегментов
+// Порядок обхода задает специфичность: static > dynamic > optional > splat.
+// На одном уровне при совпадении url выигрывает роут, который на нем заканчивается:
+// '/docs' важнее '/docs/:page?' и '/docs/*rest'
+interface TrieNode<T> {
+  static: Map<string, TrieNode<T>>;
+  dynamic: Map<string, TrieNode<T>>;
+  optional: Map<string, TrieNode<T>>;
+  // splat всегда последний сегмент, поэтому хранит роуты напрямую
+  splat: Array<{ name: string; route: T }>;
+  // Роуты, pattern которых заканчивается на этом узле (в порядке регистрации)
+  routes: T[];
+}
+
+function createNode<T>(): TrieNode<T> {
+  return { static: new Map(), dynamic: new Map(), optional: new Map(), splat: [], routes: [] };
+}
+
+function childNode<T>(children: Map<string, TrieNode<T>>, key: string): TrieNode<T> {
+  let node = children.get(key);
+  if (!node) {
+    node = createNode<T>();
+    children.set(key, node);
+  }
+  return node;
+}
+
+export interface RouteMatch<T> {
+  route: T;
+  params: RouteParams;
+}
+
+export interface CompiledMatcher<T> {
+  match(pathname: string): RouteMatch<T> | null;
+}
+
+export function compileRoutes<T extends { path: string }>(routes: T[]): CompiledMatcher<T> {
+  const root = createNode<T>();
+
+  for (const route of routes) {
+    const segments = splitPath(route.path);
+    const last = segments[segments.length - 1];
+    const splat = last !== undefined && last.startsWith('*') ? segments.pop()! : null;
+
+    let node = root;
+    for (const segment of segments) {
+      if (segment.startsWith('*')) {
+        throw new Error(`Splat segment "${segment}" must be the last one in "${route.path}"`);
+      }
+      if (segment.startsWith(':')) {
+        node = segment.endsWith('?')
+          ? childNode(node.optional, segment.slice(1, -1))
+          : childNode(node.dynamic, segment.slice(1));
+      } else {
+        node = childNode(node.static, segment);
+      }
+    }
+
+    if (splat) {
+      node.splat.push({ name: splat.slice(1), route });
+    } else {
+      node.routes.push(route);
+    }
+  }
+
+  // Значения params копятся в массиве и превращаются в объект только для найденного роута
+  type Entry = [string, string | string[]];
+
+  function toParams(entries: Entry[]): RouteParams {
+    const params: RouteParams = {};
+    for (const [key, value] of entries) params[key] = value;
+    return params;
+  }
+
+  function walk(node: TrieNode<T>, segments: string[], index: number, entries: Entry[]): RouteMatch<T> | null {
+    if (index === segments.length && node.routes.length > 0) {
+      return { route: node.routes[0], params: toParams(entries) };
+    }
+
+    if (index < segments.length) {
+      const segment = segments[index];
+
+      const staticChild = node.static.get(segment);
+      if (staticChild) {
+        const matched = walk(staticChild, segments, index + 1, entries);
+        if (matched) return matched;
+      }
+
+      for (const [name, child] of node.dynamic) {
+        entries.push([name, decodeURIComponent(segment)]);
+        const matched = walk(child, segments, index + 1, entries);
+        if (matched) return matched;
+        entries.pop();
+      }
+
+      for (const [name, child] of node.optional) {
+        entries.push([name, decodeURIComponent(segment)]);
+        const matched = walk(child, segments, index + 1, entries);
+        if (matched) return matched;
+        entries.pop();
+      }
+    }
+
+    // Необязательный сегмент, пропущенный в url
+    for (const child of node.optional.values()) {
+      const matched = walk(child, segments, index, entries);
+      if (matched) return matched;
+    }
+
+    if (node.splat.length > 0) {
+      const { name, route } = node.splat[0];
+      const rest = segments.slice(index).map((segment) => decodeURIComponent(segment));
+      return { route, params: toParams([...entries, [name, rest]]) };
+    }
+
+    return null;
+  }
+
+  return {
+    match(pathname: string) {
+      return walk(root, splitPath(pathname), 0, []);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// NestJS: приложение contract-page внутри Nest-приложения (@nestjs/platform-express)
+// Отдельная точка входа (@monorepo/contract-page-2/nest), @nestjs/common и @nestjs/core - peer-зависимости.
+//
+//   @Module({
+//     imports: [
+//       ContractPageModule.forRoot({
+//         app,
+//         handler: { renderToString, clientEntry: '/assets/main.js' },
+//         services: { episodes: EpisodesService },
+//       }),
+//     ],
+//     controllers: [AppController],
+//   })
+//   export class AppModule {}
+//
+// SSR, /api/page и actions монтируются после маршрутов контроллеров, поэтому контроллеры Nest
+// (например, /health) обрабатывают свои запросы сами. Провайдеры из services приходят в
+// getAppContext, guards, page() и actions как runtime.services (episodes -> runtime.services.episodes)
+
+import { Module, type DynamicModule, type InjectionToken, type OnModuleInit } from '@nestjs/common';
+import { HttpAdapterHost, ModuleRef } from '@nestjs/core';
+import type { RuntimeServices } from './index';
+import type { RequestHandler, RequestHandlerOptions } from './handler';
+import { toExpressMiddleware } from './node';
+
+// =======================
+// Типы
+export interface ContractPageModuleOptions {
+  // Результат defineApp
+  app: { createRequestHandler: (options: RequestHandlerOptions) => RequestHandler };
+  // Опции handleRequest (renderToString, clientEntry, ...)
+  handler: Omit<RequestHandlerOptions, 'services'>;
+  // Провайдеры Nest, доступные страницам: ключ в runtime.services -> токен провайдера
+  services?: { [Key in keyof RuntimeServices]: InjectionToken };
+}
+
+// Токен опций модуля
+export const CONTRACT_PAGE_OPTIONS = 'CONTRACT_PAGE_OPTIONS';
+
+// =======================
+// Монтирование
+// onModuleInit вызывается после регистрации маршрутов контроллеров, но до обработчика 404 Nest
+class ContractPageMount implements OnModuleInit {
+  constructor(
+    private readonly options: ContractPageModuleOptions,
+    private readonly adapterHost: HttpAdapterHost,
+    private readonly moduleRef: ModuleRef
+  ) {}
+
+  onModuleInit() {
+    const services: Record<string, unknown> = {};
+    for (const [key, token] of Object.entries(this.options.services || {})) {
+      services[key] = this.moduleRef.get(token as InjectionToken, { strict: false });
+    }
+
+    const handleRequest = this.options.app.createRequestHandler({
+      ...this.options.handler,
+      services: services as RuntimeServices,
+    });
+    this.adapterHost.httpAdapter.use(toExpressMiddleware(handleRequest));
+  }
+}
+
+export class ContractPageModule {
+  static forRoot(options: ContractPageModuleOptions): DynamicModule {
+    return {
+      module: ContractPageModule,
+      providers: [
+        { provide: CONTRACT_PAGE_OPTIONS, useValue: options },
+        {
+          provide: ContractPageMount,
+          useFactory: (adapterHost: HttpAdapterHost, moduleRef: ModuleRef) =>
+            new ContractPageMount(options, adapterHost, moduleRef),
+          inject: [HttpAdapterHost, ModuleRef],
+        },
+      ],
+    };
+  }
+}
+
+// Пакет собирается без experimentalDecorators - декоратор применяется вызовом
+Module({})(ContractPageModule);
@@ -0,0 +1,107 @@
+// Адаптеры handleRequest для Node:
+//   http.createServer(toNodeHandler(handleRequest))
+//   expressApp.use(toExpressMiddleware(handleRequest))
+// Запросы, которые приложение не обрабатывает, middleware передает дальше (next)
+
+import { handlesRequest, type RequestContext, type RequestHandler } from './handler';
+
+// IncomingMessage -> Request. Тело, уже разобранное body-parser'ом (req.body), собирается заново
+// только для JSON. Для остальных форматов (формы) сохраняется исходный Content-Type - actions отвечают 415
+async function toRequest(req: any): Promise<Request> {
+  const protocol = req.protocol || (req.socket?.encrypted ? 'https' : 'http');
+  const url = new URL(req.originalUrl || req.url, `${protocol}://${req.headers.host || 'localhost'}`);
+
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(req.headers as Record<string, string | string[] | undefined>)) {
+    if (value === undefined) continue;
+    for (const item of Array.isArray(value) ? value : [value]) {
+      headers.append(key, item);
+    }
+  }
+
+  // Actions принимают только JSON, поэтому тело передается строкой
+  let body: string | undefined;
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    if (typeof req.body === 'string' || Buffer.isBuffer(req.body)) {
+      body = req.body.toString();
+    } else if (req.body !== undefined) {
+      // Объект, разобранный body-parser'ом: длина исходного тела к нему не относится
+      headers.delete('Content-Length');
+      const contentType = headers.get('Content-Type')?.split(';')[0]?.trim().toLowerCase();
+      if (contentType === 'application/json') {
+        body = JSON.stringify(req.body);
+      }
+    } else {
+      // Байты склеиваются до декодирования: символ UTF-8 может быть разрезан между чанками
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+      }
+      body = Buffer.concat(chunks).toString();
+    }
+  }
+
+  return new Request(url, { method: req.method, headers, body: body ?? null });
+}
+
+// IP клиента: req.ip Express (учитывает trust proxy) или адрес сокета
+function requestContext(req: any): RequestContext {
+  return { ip: req.ip || req.socket?.remoteAddress };
+}
+
+// Response -> ServerResponse. Тело передается по мере готовности (потоковый SSR)
+async function sendResponse(response: Response, res: any) {
+  res.statusCode = response.status;
+  response.headers.forEach((value, key) => {
+    if (key !== 'set-cookie') res.setHeader(key, value);
+  });
+  // Каждая cookie - отдельный заголовок Set-Cookie
+  const cookies = response.headers.getSetCookie();
+  if (cookies.length) {
+    res.setHeader('Set-Cookie', cookies);
+  }
+  if (!response.body) {
+    res.end();
+    return;
+  }
+
+  const reader = response.body.getReader();
+  res.on('close', () => {
+    reader.cancel().catch(() => {});
+  });
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    res.write(value);
+    // compression буферизует ответ - без flush поток дойдет до клиента только в конце
+    res.flush?.();
+  }
+  res.end();
+}
+
+export function toNodeHandler(handleRequest: RequestHandler) {
+  return async (req: any, res: any) => {
+    try {
+      await sendResponse(await handleRequest(await toRequest(req), requestContext(req)), res);
+    } catch (e) {
+      console.error('Request Error:', e);
+      if (!res.headersSent) {
+        res.statusCode = 500;
+      }
+      res.end();
+    }
+  };
+}
+
+export function toExpressMiddleware(handleRequest: RequestHandler) {
+  return (req: any, res: any, next: (error?: unknown) => void) => {
+    if (!handlesRequest(req.method, req.path ?? new URL(req.url, 'http://localhost').pathname)) {
+      next();
+      return;
+    }
+    toRequest(req)
+      .then((request) => handleRequest(request, requestContext(req)))
+      .then((response) => sendResponse(response, res))
+      .catch(next);
+  };
+}
@@ -0,0 +1,86 @@
+// Схема params страницы: приведение типов, невалидные params - 404 в SSR и 400 в /api/page,
+// page() при этом не вызывается
+
+import { describe, expect, it, vi } from 'vitest';
+import { createElement, createContext, useContext, useEffect, useState } from 'react';
+import { renderToString } from 'react-dom/server';
+import { initContract } from './index';
+import { createPageLoader } from './loader';
+import type { StandardSchemaV1 } from './params';
+import { enhanceContractWithSPA } from './spa';
+
+// Standard Schema: положительное целое
+const idSchema: StandardSchemaV1<{ id: string }, { id: number }> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value) => {
+      const id = Number((value as { id: string }).id);
+      return Number.isInteger(id) && id > 0
+        ? { value: { id } }
+        : { issues: [{ message: 'Expected a positive integer', path: ['id'] }] };
+    },
+  },
+};
+
+function createContract() {
+  const contract = initContract();
+  const episodePage = vi.fn(async ({ params }: { params: { id: number } }) => ({ type: 'ok' as const, data: params }));
+  const characterPage = vi.fn(async ({ params }: { params: { id: number } }) => ({ type: 'ok' as const, data: params }));
+  contract.definePage({
+    path: '/episode/:id',
+    params: (params) => {
+      const id = Number(params.id);
+      if (!Number.isInteger(id)) throw new Error(`Invalid id "${params.id}"`);
+      return { id };
+    },
+    page: episodePage,
+  });
+  contract.definePage({ path: '/character/:id', params: idSchema, page: characterPage });
+  return { contract, episodePage, characterPage };
+}
+
+describe('params schema', () => {
+  it('coerces params before page()', async () => {
+    const { contract, episodePage, characterPage } = createContract();
+    const { loadPageResponse } = createPageLoader(contract, true);
+    expect((await loadPageResponse('/episode/7', new Set(), false)).data.page).toEqual({ type: 'ok', data: { id: 7 } });
+    expect((await loadPageResponse('/character/3', new Set(), false)).data.params).toEqual({ id: 3 });
+    expect(episodePage).toHaveBeenCalledWith(expect.objectContaining({ params: { id: 7 } }));
+    expect(characterPage).toHaveBeenCalledWith(expect.objectContaining({ params: { id: 3 } }));
+  });
+
+  it('answers /api/page with 400 and issues', async () => {
+    const { contract, episodePage, characterPage } = createContract();
+    const { loadPageResponse } = createPageLoader(contract, true);
+
+    const episode = await loadPageResponse('/episode/abc', new Set(), false);
+    expect(episode.status).toBe(400);
+    expect(episode.data).toMatchObject({
+      page: { type: 'not-found', reason: 'invalid-params', issues: [{ message: 'Invalid id "abc"' }] },
+      params: null,
+    });
+
+    const character = await loadPageResponse('/character/0', new Set(), false);
+    expect(character.status).toBe(400);
+    expect(character.data.page.issues).toEqual([{ message: 'Expected a positive integer', path: ['id'] }]);
+
+    expect(episodePage).not.toHaveBeenCalled();
+    expect(characterPage).not.toHaveBeenCalled();
+  });
+
+  it('renders not-found with 404 in SSR', async () => {
+    const { contract, episodePage } = createContract();
+    const app = enhanceContractWithSPA(contract).defineApp({
+      React: { useState, useEffect, createElement, createContext, useContext },
+      renderApp: ({ router }: { router: any }) => router,
+      notFound: () => createElement('p', null, 'Page not found'),
+    });
+    const handleRequest = app.createRequestHandler({ renderToString, isProd: true });
+
+    const response = await handleRequest(new Request('http://app.test/episode/abc'));
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('Page not found');
+    expect(episodePage).not.toHaveBeenCalled();
+  });
+});
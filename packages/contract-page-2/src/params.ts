@@ -0,0 +1,62 @@
+// Валидация и приведение params страницы
+// Схема - функция (бросает исключение, если params невалидны) или объект Standard Schema (zod, valibot, arktype...)
+
+// =======================
+// Минимальный интерфейс Standard Schema v1 (https://standardschema.dev)
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+export type ParamsSchema<RawParams, Params> =
+  | ((params: RawParams) => Params)
+  | StandardSchemaV1<any, Params>;
+
+// Результат страницы, params которой не прошли схему (в /api/page отдается со статусом 400)
+export interface InvalidParamsResult {
+  type: 'not-found';
+  reason: 'invalid-params';
+  issues: StandardSchemaIssue[];
+}
+
+export type ParamsValidationResult =
+  | { ok: true; params: any }
+  | { ok: false; issues: StandardSchemaIssue[] };
+
+// =======================
+// Приведение params по схеме страницы (без схемы params возвращаются как есть)
+export async function validateParams(
+  schema: ParamsSchema<any, any> | undefined,
+  rawParams: unknown
+): Promise<ParamsValidationResult> {
+  if (!schema) {
+    return { ok: true, params: rawParams };
+  }
+
+  if (typeof schema === 'function') {
+    try {
+      return { ok: true, params: schema(rawParams) };
+    } catch (e: any) {
+      return { ok: false, issues: [{ message: e?.message || 'Invalid params' }] };
+    }
+  }
+
+  const result = await schema['~standard'].validate(rawParams);
+  if (result.issues) {
+    return { ok: false, issues: [...result.issues] };
+  }
+  return { ok: true, params: result.value };
+}
@@ -0,0 +1,151 @@
+// Prerender (статическая генерация)
+// app.prerender({ outDir, renderToString }) рендерит страницы без params и страницы с getStaticPaths
+// в HTML-файлы и JSON с данными, который клиент загружает вместо /api/page.
+// Результат раздается любым статическим хостингом: 404.html - документ без данных, клиент
+// загружает в нем данные страницы с сервера (fallback), если страница не была отрендерена заранее
+
+import type { Contract } from './index';
+import { createPageLoader, serializePageData } from './loader';
+import { segmentParamName, splitPath } from './matcher';
+import { staticDataPath, type StaticSiteConfig } from './router';
+import type { Serializer } from './serializer';
+
+// =======================
+// Типы
+export interface PrerenderOptions {
+  // Каталог результата (обычно рядом со сборкой клиента)
+  outDir: string;
+  renderToString: (element: any) => string;
+  // Модуль клиента (по умолчанию '/assets/main.js')
+  clientEntry?: string;
+  // Дополнительные url (query string не поддерживается: файлы именуются по pathname)
+  paths?: string[];
+  // Origin сервера для страниц, которых нет среди отрендеренных (по умолчанию - тот же origin)
+  fallback?: string;
+  isProd?: boolean;
+}
+
+export interface PrerenderedPage {
+  url: string;
+  status: number;
+  // Файлы относительно outDir (для ошибки страницы файлы не пишутся)
+  files: string[];
+}
+
+export interface PrerenderResult {
+  pages: PrerenderedPage[];
+}
+
+// =======================
+// Пути файлов
+// '/' -> '/index.html', '/episodes' -> '/episodes/index.html'
+function staticHtmlPath(pathname: string) {
+  return `${pathname.replace(/\/+$/, '')}/index.html`;
+}
+
+// url страниц для prerender: страницы без params и все params из getStaticPaths
+async function collectStaticPaths(contract: Contract<any, any>) {
+  const urls: string[] = [];
+  for (const page of contract.createRoutes() as any[]) {
+    if (page.getStaticPaths) {
+      for (const params of await page.getStaticPaths()) {
+        urls.push(page.href(params));
+      }
+    } else if (!splitPath(page.path).some((segment) => segmentParamName(segment) !== null)) {
+      urls.push(page.href());
+    }
+  }
+  return urls;
+}
+
+// =======================
+// Prerender
+export async function prerenderApp<AppCtx>(
+  contract: Contract<AppCtx, any>,
+  options: PrerenderOptions,
+  render: {
+    // Сериализатор данных для клиента (defineApp({ serializer }))
+    serializer: Serializer;
+    // Документ страницы (renderDocument из defineApp)
+    document: (page: {
+      url: string;
+      appContext: AppCtx | undefined;
+      result: any;
+      layouts: Record<string, any>;
+      pageParams: any;
+      isProduction: boolean;
+      script: string;
+    }) => Promise<string>;
+    // Документ без данных страницы
+    shell: (script: string) => string;
+  }
+): Promise<PrerenderResult> {
+  const fsModule = 'fs/promises';
+  const pathModule = 'path';
+  const { mkdir, writeFile } = await import(/* @vite-ignore */ fsModule);
+  const { dirname, join } = await import(/* @vite-ignore */ pathModule);
+
+  const { outDir, paths = [], fallback = '', isProd = true } = options;
+  const { loadRequestData } = createPageLoader(contract, isProd);
+  const staticConfig: StaticSiteConfig = { fallback };
+  const script = `window.__STATIC__ = ${JSON.stringify(staticConfig)};`;
+
+  const write = async (file: string, content: string) => {
+    const target = join(outDir, file);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, content);
+  };
+
+  const urls = [...new Set([...(await collectStaticPaths(contract)), ...paths])];
+  const pages: PrerenderedPage[] = [];
+  for (const url of urls) {
+    if (url.includes('?')) {
+      console.warn(`Prerender: "${url}" skipped, urls with query string are loaded from the server`);
+      continue;
+    }
+    const matched = contract.matchRoute(url);
+    if (!matched.page) {
+      console.warn(`Prerender: no page matches "${url}"`);
+      pages.push({ url, status: 404, files: [] });
+      continue;
+    }
+
+    // appContext build-время не попадает в документ: клиент получит свой через getAppContext
+    const { appContext, data } = await loadRequestData(url, matched, new Set());
+    const result = data.page;
+    if (result.type === 'error') {
+      console.warn(`Prerender: "${url}" failed with ${result.status} ${result.message}`);
+      pages.push({ url, status: result.status, files: [] });
+      continue;
+    }
+
+    const { pathname } = new URL(url, 'http://localhost');
+    const files = [staticDataPath(pathname), staticHtmlPath(pathname)];
+    await write(files[0], render.serializer.stringify(await serializePageData(data, isProd)));
+
+    if (result.type === 'redirect') {
+      // Статический хостинг не отдает redirect - документ перенаправляет сам
+      const to = JSON.stringify(result.to).replace(/</g, '\\u003c');
+      await write(files[1], `<!DOCTYPE html><meta http-equiv="refresh" content="0; url=${encodeURI(result.to)}"><script>location.replace(${to})</script>`);
+      pages.push({ url, status: result.status || 302, files });
+      continue;
+    }
+
+    await write(
+      files[1],
+      await render.document({
+        url,
+        appContext,
+        result,
+        layouts: data.layouts,
+        pageParams: data.params,
+        isProduction: isProd,
+        script,
+      })
+    );
+    pages.push({ url, status: data.params === null ? 400 : result.type === 'not-found' ? 404 : 200, files });
+  }
+
+  await write('404.html', render.shell(script));
+  return { pages };
+}
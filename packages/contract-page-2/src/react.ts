@@ -0,0 +1,15 @@
+// React приложения (options.React из defineApp).
+// Пакет не импортирует react: компоненты и хуки пакета (Link и др.) берут его отсюда
+
+let registeredReact: any;
+
+export function setReact(React: any) {
+  registeredReact = React;
+}
+
+export function getReact() {
+  if (!registeredReact) {
+    throw new Error('React is not registered: call defineApp({ React, ... }) before rendering package components');
+  }
+  return registeredReact;
+}
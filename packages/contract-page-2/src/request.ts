@@ -0,0 +1,153 @@
+// Запрос и ответ в runtime-контексте (runtime.method, headers, cookies, ip, locale, response)
+//
+// На сервере runtime получает HTTP-запрос SSR, /api/page или action. Через runtime.response
+// getAppContext, guards, page() и actions задают статус, заголовки и cookies ответа:
+//
+//   appContext: async (runtime) => {
+//     let session = runtime.cookies?.session;
+//     if (!session) {
+//       session = crypto.randomUUID();
+//       runtime.response?.setCookie('session', session, { maxAge: 60 * 60 * 24 * 30 });
+//     }
+//     const user = await users.bySession(session);
+//     return { userId: user?.id, locale: runtime.locale || 'en' };
+//   }
+//
+// appContext передается клиенту (window.__APP_CTX__, /api/page), поэтому значения HttpOnly cookies
+// (id сессии) в него не кладутся - только то, что из них получено на сервере
+//
+// На клиенте runtime содержит подмножество: url, cookies (document.cookie, без HttpOnly) и
+// locale (navigator.language). Запросы /api/page идут с cookies браузера, поэтому getAppContext
+// на сервере видит и HttpOnly cookies
+
+import type { RuntimeContext } from './index';
+
+// =======================
+// Типы
+export interface CookieOptions {
+  // Срок жизни в секундах
+  maxAge?: number;
+  expires?: Date;
+  // По умолчанию '/'
+  path?: string;
+  domain?: string;
+  secure?: boolean;
+  // По умолчанию true: cookie недоступна из document.cookie
+  httpOnly?: boolean;
+  // По умолчанию 'Lax'
+  sameSite?: 'Strict' | 'Lax' | 'None';
+}
+
+// Ответ запроса. Изменения после начала потокового ответа (значения defer()) не применяются
+export interface RuntimeResponse {
+  // Статус успешного ответа (undefined - статус результата page()).
+  // Redirect'ы и ошибки сохраняют свой статус
+  status: number | undefined;
+  headers: Headers;
+  setCookie: (name: string, value: string, options?: CookieOptions) => void;
+  deleteCookie: (name: string, options?: Pick<CookieOptions, 'path' | 'domain'>) => void;
+}
+
+// HTTP-запрос, для которого загружаются данные (сервер)
+export interface ServerRequest {
+  request: Request;
+  // IP клиента (адаптер сервера: req.ip или адрес сокета)
+  ip?: string | undefined;
+  response: RuntimeResponse;
+}
+
+// =======================
+// Cookies
+export function parseCookies(header: string | null | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (!name || name in cookies) continue;
+    let value = part.slice(index + 1).trim();
+    if (value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}) {
+  const { maxAge, expires, path = '/', domain, secure, httpOnly = true, sameSite = 'Lax' } = options;
+  let cookie = `${name}=${encodeURIComponent(value)}; Path=${path}`;
+  if (maxAge !== undefined) cookie += `; Max-Age=${Math.floor(maxAge)}`;
+  if (expires) cookie += `; Expires=${expires.toUTCString()}`;
+  if (domain) cookie += `; Domain=${domain}`;
+  if (secure) cookie += '; Secure';
+  if (httpOnly) cookie += '; HttpOnly';
+  cookie += `; SameSite=${sameSite}`;
+  return cookie;
+}
+
+// =======================
+// Runtime
+export function createRuntimeResponse(): RuntimeResponse {
+  const headers = new Headers();
+  return {
+    status: undefined,
+    headers,
+    setCookie: (name, value, options) => {
+      headers.append('Set-Cookie', serializeCookie(name, value, options));
+    },
+    deleteCookie: (name, options = {}) => {
+      headers.append('Set-Cookie', serializeCookie(name, '', { ...options, maxAge: 0, expires: new Date(0) }));
+    },
+  };
+}
+
+// Язык клиента: первый тег Accept-Language ('ru-RU,ru;q=0.9' -> 'ru-RU')
+function acceptedLocale(header: string | null) {
+  const locale = header?.split(',')[0]?.split(';')[0]?.trim();
+  return locale && locale !== '*' ? locale : undefined;
+}
+
+// Поля runtime из HTTP-запроса
+export function serverRuntime(server: ServerRequest): Omit<RuntimeContext, 'url' | 'services'> {
+  const { request, ip, response } = server;
+  const runtime: Omit<RuntimeContext, 'url' | 'services'> = {
+    method: request.method,
+    headers: request.headers,
+    cookies: parseCookies(request.headers.get('Cookie')),
+    response,
+  };
+  const locale = acceptedLocale(request.headers.get('Accept-Language'));
+  if (ip) runtime.ip = ip;
+  if (locale) runtime.locale = locale;
+  return runtime;
+}
+
+// runtime на клиенте: документированное подмножество серверного
+export function browserRuntime(url: string): RuntimeContext {
+  return {
+    url,
+    cookies: parseCookies(document.cookie),
+    locale: navigator.language,
+  };
+}
+
+// Статус, заголовки и cookies из runtime.response в ответе
+export function applyRuntimeResponse(response: Response, runtimeResponse: RuntimeResponse): Response {
+  const headers = new Headers(response.headers);
+  runtimeResponse.headers.forEach((value, key) => {
+    if (key !== 'set-cookie') headers.set(key, value);
+  });
+  for (const cookie of runtimeResponse.headers.getSetCookie()) {
+    headers.append('Set-Cookie', cookie);
+  }
+
+  const status =
+    runtimeResponse.status !== undefined && response.status < 300 ? runtimeResponse.status : response.status;
+  return new Response(response.body, { status, headers });
+}
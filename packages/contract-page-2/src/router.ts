@@ -0,0 +1,538 @@
+// Клиентский роутер
+// Единая точка загрузки данных страниц на клиенте: navigateTo, Link, кнопки назад/вперед
+// и revalidate() проходят через load(). Новая загрузка отменяет предыдущую (AbortController),
+// поэтому ответ устаревшей навигации никогда не попадает на экран.
+// appContext переиспользуется между переходами и приходит вместе с данными страницы, когда устарел.
+// Состояние навигации (idle / loading / submitting) доступно через useNavigation()
+
+import { REVALIDATE_EVENT, type RevalidateOptions } from './actions';
+import { normalizeError, PageError } from './errors';
+import type { PageData } from './loader';
+import { getReact } from './react';
+import { getSerializer } from './serializer';
+
+// =======================
+// Типы
+export type Navigation =
+  | { state: 'idle'; location: undefined }
+  // location - url, данные которого загружаются. revalidation - перезагрузка текущей страницы
+  | { state: 'loading'; location: string; revalidation: boolean }
+  // Выполняется action (location - текущий url)
+  | { state: 'submitting'; location: string; action: string };
+
+// Как загрузка меняет history: push/replace - новая запись/замена текущей,
+// pop - url уже изменен браузером (назад/вперед), none - url не меняется (revalidate, первая загрузка)
+export type HistoryMode = 'push' | 'replace' | 'pop' | 'none';
+
+// Опции перехода. Не заданы - используются значения из defineApp
+export interface NavigateOptions {
+  // Заменить текущую запись history вместо добавления новой
+  replace?: boolean | undefined;
+  // Показывать текущую страницу, пока загружаются данные следующей (вместо loading)
+  keepPreviousView?: boolean | undefined;
+  // Сменить страницу через View Transitions API (если браузер его поддерживает)
+  viewTransition?: boolean | undefined;
+  // false - не менять прокрутку после перехода (по умолчанию - наверх или к элементу из hash)
+  scroll?: boolean | undefined;
+}
+
+type ViewOptions = Pick<NavigateOptions, 'keepPreviousView' | 'viewTransition'>;
+
+// Куда прокрутить после показа страницы: позиция или элемент с id из hash
+export type ScrollTarget = { x: number; y: number } | { hash: string };
+
+export type RouterEvent =
+  | { type: 'navigation'; navigation: Navigation }
+  // Загрузка началась (revalidation - перезагрузка текущей страницы)
+  | ({ type: 'start'; url: string; revalidation: boolean } & ViewOptions)
+  // Данные загружены и url применен - их можно показывать. scroll применяется после рендера страницы.
+  // appContext - загрузка запрашивала appContext (data.appContext нет - сервер его не отдал, например prerender)
+  | ({
+      type: 'commit';
+      url: string;
+      data: PageData;
+      revalidation: boolean;
+      appContext: boolean;
+      scroll: ScrollTarget | null;
+    } & ViewOptions);
+
+// =======================
+// Кеш данных страниц
+// Загруженные заранее (Link prefetch), но еще не показанные данные страниц.
+// keep - ключи layout'ов, отправленные в запросе: без их данных ответ неполный
+const prefetchCache = new Map<string, { data: PageData; timestamp: number; keep: string[]; appContext: boolean }>();
+// Сколько живут данные, загруженные заранее
+const PREFETCH_TTL = 30000;
+// Сколько redirect'ов проходит один переход
+const MAX_REDIRECTS = 10;
+// Prefetch-запросы в процессе: навигация дожидается их вместо повторного запроса
+const prefetchRequests = new Map<string, Promise<void>>();
+
+// Данные layout'ов, уже загруженные на клиенте (ключ layout'а -> результат page()).
+// Их ключи уходят в /api/page как keep, чтобы сервер не загружал неизменившиеся layout'ы
+export const layoutDataCache = new Map<string, any>();
+
+// Текущий url браузера вместе с query string (hash в роутинге не участвует)
+export function getLocationUrl() {
+  return window.location.pathname + window.location.search;
+}
+
+// url для сравнения и ключей кеша: pathname + search, без hash
+export function normalizeUrl(url: string) {
+  try {
+    const urlObj = new URL(url, window.location.origin);
+    return urlObj.pathname + urlObj.search;
+  } catch {
+    return url.split('#')[0];
+  }
+}
+
+// keepLayouts = false - загрузить заново и данные layout'ов (revalidate).
+// appContext = true - вместе с данными страницы вернуть appContext
+function pageDataUrl(url: string, keepLayouts: boolean, appContext: boolean) {
+  const query = new URLSearchParams({ url });
+  if (keepLayouts) {
+    for (const key of layoutDataCache.keys()) {
+      query.append('keep', key);
+    }
+  }
+  if (appContext) {
+    query.set('appContext', '1');
+  }
+  return `/api/page?${query}`;
+}
+
+// Настройки статического режима для клиента (window.__STATIC__)
+export interface StaticSiteConfig {
+  fallback: string;
+}
+
+// JSON prerender'а: '/' -> '/_data/index.json', '/episode/1' -> '/_data/episode/1.json'
+export function staticDataPath(pathname: string) {
+  const trimmed = pathname.replace(/\/+$/, '');
+  return `/_data${trimmed || '/index'}.json`;
+}
+
+// Ответ /api/page (или JSON prerender'а) в формате сериализатора из defineApp. Ответы не от
+// обработчика страниц (текстовые 400 и 500, страница ошибки прокси) - ошибка со статусом ответа
+async function readPageData(response: Response): Promise<PageData> {
+  const contentType = response.headers.get('Content-Type')?.split(';')[0]?.trim().toLowerCase();
+  if (contentType === 'application/json') {
+    try {
+      const data = getSerializer().parse(await response.text()) as PageData;
+      if (data !== null && typeof data === 'object' && 'page' in data) return data;
+    } catch {
+      // Не JSON, несмотря на Content-Type
+    }
+  }
+  throw new PageError(response.ok ? 502 : response.status, response.statusText || 'Unexpected page data response');
+}
+
+// Данные страницы. В документе prerender'а (window.__STATIC__) сначала загружается JSON,
+// отрендеренный заранее, а если его нет - /api/page сервера (fallback).
+// revalidation всегда идет на сервер: статические данные не меняются
+async function fetchPageData(
+  url: string,
+  options: { keepLayouts: boolean; appContext: boolean; revalidation?: boolean; signal?: AbortSignal }
+): Promise<PageData> {
+  const staticSite: StaticSiteConfig | undefined = (window as any).__STATIC__;
+  // Cookies браузера уходят в /api/page (runtime.cookies на сервере). Сервер fallback'а
+  // на другом origin их не получает
+  const init: RequestInit = { signal: options.signal ?? null, credentials: 'same-origin' };
+  if (!staticSite) {
+    const response = await fetch(pageDataUrl(url, options.keepLayouts, options.appContext), init);
+    return readPageData(response);
+  }
+
+  const { pathname, search } = new URL(url, window.location.origin);
+  if (!search && !options.revalidation) {
+    const response = await fetch(staticDataPath(pathname), init);
+    // Хостинг может отдать на неизвестный путь HTML со статусом 200
+    if (response.ok && response.headers.get('Content-Type')?.includes('json')) {
+      return readPageData(response);
+    }
+  }
+  const response = await fetch(staticSite.fallback + pageDataUrl(url, options.keepLayouts, options.appContext), init);
+  return readPageData(response);
+}
+
+// Данные из prefetchCache, если они свежие, layout'ы из keep еще загружены
+// и в запросе был appContext, если он нужен
+function peekPrefetched(url: string) {
+  const cached = prefetchCache.get(url);
+  if (!cached) return null;
+  if (
+    Date.now() - cached.timestamp >= PREFETCH_TTL ||
+    !cached.keep.every((key) => layoutDataCache.has(key)) ||
+    (needsAppContext(url) && !cached.appContext)
+  ) {
+    prefetchCache.delete(url);
+    return null;
+  }
+  return cached.data;
+}
+
+// Заблаговременная загрузка данных страницы (при переходе они берутся из кеша)
+export function prefetchPage(url: string): Promise<void> {
+  if (typeof window === 'undefined') return Promise.resolve();
+
+  const target = normalizeUrl(url);
+  if (target === getLocationUrl() || peekPrefetched(target)) return Promise.resolve();
+  const inFlight = prefetchRequests.get(target);
+  if (inFlight) return inFlight;
+
+  const keep = [...layoutDataCache.keys()];
+  const appContext = needsAppContext(target);
+  const request = fetchPageData(target, { keepLayouts: true, appContext })
+    .then((data) => {
+      prefetchCache.set(target, { data, timestamp: Date.now(), keep, appContext });
+    })
+    .catch(() => {
+      // Prefetch необязателен: при переходе данные загрузятся обычным запросом
+    })
+    .finally(() => prefetchRequests.delete(target));
+  prefetchRequests.set(target, request);
+  return request;
+}
+
+// =======================
+// AppContext
+// Настройки appContext роутера (undefined - у контракта нет getAppContext)
+export interface RouterAppContextOptions {
+  // Префиксы маршрутов: переход в другую область (например, из '/admin' в '/') загружает appContext заново
+  dependsOn: string[];
+  // appContext уже есть у клиента (из документа)
+  loaded: boolean;
+}
+
+let appContextOptions: RouterAppContextOptions | undefined;
+// invalidateAppContext(), action или revalidate({ appContext: true })
+let appContextStale = false;
+// Область url, для которого загружен appContext (undefined - еще не загружен)
+let appContextScope: string | undefined;
+
+// Самый длинный префикс из dependsOn, которому соответствует url ('' - ни одному)
+function appContextScopeOf(url: string) {
+  const { pathname } = new URL(url, window.location.origin);
+  let scope = '';
+  for (const prefix of appContextOptions?.dependsOn || []) {
+    const base = prefix.replace(/\/+$/, '');
+    if ((pathname === base || pathname.startsWith(base + '/')) && prefix.length > scope.length) {
+      scope = prefix;
+    }
+  }
+  return scope;
+}
+
+// Нужно ли загрузить appContext вместе с данными url
+function needsAppContext(url: string) {
+  if (!appContextOptions) return false;
+  return appContextStale || appContextScope !== appContextScopeOf(url);
+}
+
+// =======================
+// Прокрутка
+// Позиции прокрутки записей history (ключ из history.state -> позиция).
+// Хранятся в sessionStorage, поэтому переживают уход с сайта и возврат кнопкой назад
+const SCROLL_STORAGE_KEY = 'contract-page:scroll';
+let scrollPositions: Record<string, { x: number; y: number }> = {};
+// Ключ текущей записи history
+let currentKey: string | undefined;
+
+function createKey() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function readScrollPositions() {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveScrollPosition() {
+  if (!currentKey) return;
+  scrollPositions[currentKey] = { x: window.scrollX, y: window.scrollY };
+  try {
+    sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(scrollPositions));
+  } catch {
+    // sessionStorage недоступен (приватный режим и т.п.) - позиции живут до перезагрузки
+  }
+}
+
+// Запись history с новым ключом
+function writeHistory(mode: 'push' | 'replace', href: string) {
+  currentKey = createKey();
+  const state = { ...window.history.state, key: currentKey };
+  if (mode === 'push') {
+    window.history.pushState(state, '', href);
+  } else {
+    window.history.replaceState(state, '', href);
+  }
+}
+
+// Назад/вперед - сохраненная позиция записи, иначе - элемент из hash или начало страницы
+function scrollTargetFor(mode: HistoryMode, href: string): ScrollTarget | null {
+  if (mode === 'none') return null;
+  const saved = mode === 'pop' && currentKey ? scrollPositions[currentKey] : undefined;
+  if (saved) return saved;
+  const { hash } = new URL(href, window.location.origin);
+  return hash ? { hash: decodeURIComponent(hash.slice(1)) } : { x: 0, y: 0 };
+}
+
+export function applyScroll(target: ScrollTarget) {
+  if ('hash' in target) {
+    const element = document.getElementById(target.hash);
+    if (element) {
+      element.scrollIntoView();
+      return;
+    }
+    window.scrollTo(0, 0);
+    return;
+  }
+  window.scrollTo(target.x, target.y);
+}
+
+// Позиция, сохраненная для текущей записи до перезагрузки документа
+export function getInitialScroll(): ScrollTarget | null {
+  return (currentKey && scrollPositions[currentKey]) || null;
+}
+
+// =======================
+// Состояние
+const IDLE: Navigation = { state: 'idle', location: undefined };
+let navigation: Navigation = IDLE;
+// Контроллер текущей загрузки: следующая загрузка отменяет ее
+let activeController: AbortController | null = null;
+let isProduction = false;
+let started = false;
+// url показанной страницы (без hash)
+let committedUrl: string | undefined;
+const listeners = new Set<(event: RouterEvent) => void>();
+
+function emit(event: RouterEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+function setNavigation(next: Navigation) {
+  navigation = next;
+  emit({ type: 'navigation', navigation });
+}
+
+export function getNavigation(): Navigation {
+  return navigation;
+}
+
+export function subscribeRouter(listener: (event: RouterEvent) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Подключение роутера к окну (вызывает AppComponent после монтирования, повторные вызовы ничего не делают)
+export function startRouter(options: { isProduction: boolean; appContext?: RouterAppContextOptions | undefined }) {
+  isProduction = options.isProduction;
+  if (started) return;
+  started = true;
+  committedUrl = getLocationUrl();
+  appContextOptions = options.appContext;
+  appContextStale = false;
+  appContextScope = appContextOptions?.loaded ? appContextScopeOf(committedUrl) : undefined;
+
+  // Прокруткой при переходах управляет роутер: браузер восстановил бы ее до загрузки данных
+  window.history.scrollRestoration = 'manual';
+  scrollPositions = readScrollPositions();
+  currentKey = window.history.state?.key;
+  if (!currentKey) {
+    writeHistory('replace', window.location.href);
+  }
+  window.addEventListener('pagehide', saveScrollPosition);
+  window.addEventListener('popstate', handlePopState);
+  window.addEventListener(REVALIDATE_EVENT, handleRevalidate);
+}
+
+// Отключение роутера от окна и сброс его состояния (testing: следующий startRouter начинает заново)
+export function stopRouter() {
+  window.removeEventListener('pagehide', saveScrollPosition);
+  window.removeEventListener('popstate', handlePopState);
+  window.removeEventListener(REVALIDATE_EVENT, handleRevalidate);
+  activeController?.abort();
+  activeController = null;
+  started = false;
+  committedUrl = undefined;
+  currentKey = undefined;
+  appContextOptions = undefined;
+  appContextStale = false;
+  appContextScope = undefined;
+  navigation = IDLE;
+  prefetchCache.clear();
+  prefetchRequests.clear();
+  layoutDataCache.clear();
+}
+
+function handlePopState(event: PopStateEvent) {
+  saveScrollPosition();
+  currentKey = event.state?.key;
+  if (!currentKey) {
+    writeHistory('replace', window.location.href);
+  }
+  // Переход между якорями одной страницы - данные не меняются
+  if (getLocationUrl() === committedUrl) {
+    const target = scrollTargetFor('pop', window.location.href);
+    if (target) applyScroll(target);
+    return;
+  }
+  load(window.location.href, 'pop');
+}
+
+function handleRevalidate(event: Event) {
+  const { page = true, appContext = false }: RevalidateOptions = (event as CustomEvent).detail || {};
+  // Загруженные заранее данные других страниц после мутации тоже устарели
+  prefetchCache.clear();
+  if (appContext && appContextOptions) {
+    appContextStale = true;
+  }
+  if (page || appContextStale) {
+    load(getLocationUrl(), 'none', { revalidation: true });
+  }
+}
+
+// =======================
+// Загрузка
+// href - url для history (может содержать hash), данные загружаются по url без hash
+export async function load(
+  href: string,
+  mode: HistoryMode,
+  // redirects - сколько redirect'ов уже пройдено в этом переходе
+  options: { revalidation?: boolean; scroll?: boolean | undefined; redirects?: number } & ViewOptions = {}
+): Promise<void> {
+  const { revalidation = false, scroll = true, redirects = 0, ...view } = options;
+  const url = normalizeUrl(href);
+
+  // Позиция уходящей страницы (при отмене предыдущего перехода она уже сохранена)
+  if ((mode === 'push' || mode === 'replace') && !activeController) {
+    saveScrollPosition();
+  }
+  activeController?.abort();
+  const controller = new AbortController();
+  activeController = controller;
+
+  setNavigation({ state: 'loading', location: url, revalidation });
+  emit({ type: 'start', url, revalidation, ...view });
+
+  let appContext = needsAppContext(url);
+  let data: PageData;
+  try {
+    if (!revalidation) {
+      // Данные могли быть загружены заранее (Link prefetch)
+      await prefetchRequests.get(url);
+    }
+    const prefetched = revalidation ? null : peekPrefetched(url);
+    if (prefetched) {
+      prefetchCache.delete(url);
+      data = prefetched;
+    } else {
+      data = await fetchPageData(url, {
+        keepLayouts: !revalidation,
+        appContext,
+        revalidation,
+        signal: controller.signal,
+      });
+    }
+  } catch (error) {
+    if (controller.signal.aborted) return;
+    if (!isProduction) {
+      console.error('Failed to fetch page data:', error);
+    }
+    data = { page: normalizeError(error, isProduction), layouts: {}, params: undefined };
+    // appContext не получен - его запросит следующая загрузка
+    appContext = false;
+  }
+
+  // Пока ждали prefetch, началась другая загрузка
+  if (controller !== activeController) return;
+
+  if (data.page.type === 'redirect' && normalizeUrl(data.page.to) !== url) {
+    if (redirects < MAX_REDIRECTS) {
+      // Переход по ссылке записывает в history итоговый url, остальные загрузки заменяют текущий
+      return load(data.page.to, mode === 'push' ? 'push' : 'replace', { ...view, scroll, redirects: redirects + 1 });
+    }
+    // Цикл redirect'ов (A -> B -> A): показывается ошибка, а не бесконечная загрузка
+    data = { ...data, page: normalizeError(new PageError(500, `Too many redirects (${url})`), isProduction) };
+  }
+
+  activeController = null;
+  if (mode === 'push' || mode === 'replace') {
+    writeHistory(mode, href);
+  }
+  committedUrl = url;
+  if (appContext) {
+    appContextStale = false;
+    appContextScope = appContextScopeOf(url);
+  }
+  setNavigation(IDLE);
+  emit({
+    type: 'commit',
+    url,
+    data,
+    revalidation,
+    appContext,
+    scroll: scroll ? scrollTargetFor(mode, href) : null,
+    ...view,
+  });
+}
+
+// Переход на url (navigateTo, Link). Переход на якорь текущей страницы только прокручивает к нему
+export function navigate(href: string, options: NavigateOptions = {}) {
+  const { replace, ...rest } = options;
+  const target = new URL(href, window.location.origin);
+  if (target.pathname + target.search === committedUrl && !activeController) {
+    if (!target.hash) return Promise.resolve();
+    if (target.hash !== window.location.hash) {
+      saveScrollPosition();
+      writeHistory(replace ? 'replace' : 'push', href);
+    }
+    if (rest.scroll !== false) {
+      applyScroll({ hash: decodeURIComponent(target.hash.slice(1)) });
+    }
+    return Promise.resolve();
+  }
+  return load(href, replace ? 'replace' : 'push', rest);
+}
+
+// Action в процессе: состояние submitting, пока не начнется загрузка или action не завершится.
+// Возвращает функцию завершения
+export function beginSubmission(action: string) {
+  if (typeof window === 'undefined' || navigation.state === 'loading') return () => {};
+
+  const submitting: Navigation = { state: 'submitting', location: getLocationUrl(), action };
+  setNavigation(submitting);
+  return () => {
+    if (navigation === submitting) {
+      setNavigation(IDLE);
+    }
+  };
+}
+
+// =======================
+// Hook
+// Текущее состояние навигации, например для индикатора загрузки:
+//   const navigation = useNavigation();
+//   navigation.state === 'loading' && <ProgressBar />
+export function useNavigation(): Navigation {
+  const { useState, useEffect } = getReact();
+  const [current, setCurrent] = useState(getNavigation);
+
+  useEffect(() => {
+    setCurrent(getNavigation());
+    return subscribeRouter((event) => {
+      if (event.type === 'navigation') {
+        setCurrent(event.navigation);
+      }
+    });
+  }, []);
+
+  return current;
+}
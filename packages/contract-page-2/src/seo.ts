@@ -0,0 +1,161 @@
+// SEO / head management
+// Страница (и layout) возвращают seo в результате page(), приложение задает defaults и шаблон title.
+// На сервере мета-теги рендерятся в <head>, на клиенте обновляются после каждой навигации
+
+// =======================
+// Типы
+export interface OpenGraphMeta {
+  title?: string;
+  description?: string;
+  type?: string;
+  url?: string;
+  image?: string;
+  imageAlt?: string;
+  siteName?: string;
+  locale?: string;
+}
+
+export interface TwitterMeta {
+  card?: 'summary' | 'summary_large_image' | 'app' | 'player';
+  site?: string;
+  creator?: string;
+  title?: string;
+  description?: string;
+  image?: string;
+}
+
+export interface SeoMeta {
+  title?: string;
+  description?: string;
+  canonical?: string;
+  robots?: string;
+  openGraph?: OpenGraphMeta;
+  twitter?: TwitterMeta;
+  jsonLd?: Record<string, unknown> | Record<string, unknown>[];
+}
+
+export interface SeoOptions {
+  // Значения по умолчанию для всех страниц
+  defaults?: SeoMeta;
+  // Шаблон title страницы, %s заменяется на title из page(): '%s | Rick and Morty'.
+  // К defaults.title шаблон не применяется
+  titleTemplate?: string;
+}
+
+// Атрибут, которым помечаются управляемые теги (чтобы заменять их при навигации)
+const SEO_ATTRIBUTE = 'data-seo';
+
+// =======================
+// Слияние seo: defaults < layout'ы (от внешнего к внутреннему) < страница
+export function resolveSeo(options: SeoOptions | undefined, ...sources: Array<SeoMeta | undefined>): SeoMeta {
+  const resolved: SeoMeta = { ...options?.defaults };
+  let pageTitle: string | undefined;
+
+  for (const seo of sources) {
+    if (!seo) continue;
+    if (seo.title !== undefined) pageTitle = seo.title;
+    Object.assign(resolved, seo, {
+      openGraph: seo.openGraph ? { ...resolved.openGraph, ...seo.openGraph } : resolved.openGraph,
+      twitter: seo.twitter ? { ...resolved.twitter, ...seo.twitter } : resolved.twitter,
+    });
+  }
+
+  if (pageTitle !== undefined) {
+    resolved.title = options?.titleTemplate ? options.titleTemplate.replace('%s', pageTitle) : pageTitle;
+  }
+  return resolved;
+}
+
+// Плоский список мета-тегов (общий для SSR и клиента)
+type HeadTag =
+  | { tag: 'meta'; attributes: Record<string, string> }
+  | { tag: 'link'; attributes: Record<string, string> }
+  | { tag: 'script'; attributes: Record<string, string>; content: string };
+
+function collectTags(seo: SeoMeta): HeadTag[] {
+  const tags: HeadTag[] = [];
+  const meta = (key: 'name' | 'property', name: string, content: string | undefined) => {
+    if (content !== undefined) tags.push({ tag: 'meta', attributes: { [key]: name, content } });
+  };
+
+  meta('name', 'description', seo.description);
+  meta('name', 'robots', seo.robots);
+  if (seo.canonical) {
+    tags.push({ tag: 'link', attributes: { rel: 'canonical', href: seo.canonical } });
+  }
+
+  const og = seo.openGraph || {};
+  meta('property', 'og:title', og.title ?? seo.title);
+  meta('property', 'og:description', og.description ?? seo.description);
+  meta('property', 'og:type', og.type);
+  meta('property', 'og:url', og.url ?? seo.canonical);
+  meta('property', 'og:image', og.image);
+  meta('property', 'og:image:alt', og.imageAlt);
+  meta('property', 'og:site_name', og.siteName);
+  meta('property', 'og:locale', og.locale);
+
+  const twitter = seo.twitter;
+  if (twitter) {
+    meta('name', 'twitter:card', twitter.card);
+    meta('name', 'twitter:site', twitter.site);
+    meta('name', 'twitter:creator', twitter.creator);
+    meta('name', 'twitter:title', twitter.title);
+    meta('name', 'twitter:description', twitter.description);
+    meta('name', 'twitter:image', twitter.image);
+  }
+
+  if (seo.jsonLd) {
+    for (const item of Array.isArray(seo.jsonLd) ? seo.jsonLd : [seo.jsonLd]) {
+      tags.push({
+        tag: 'script',
+        attributes: { type: 'application/ld+json' },
+        // '<' экранируется, чтобы данные не могли закрыть <script>
+        content: JSON.stringify(item).replace(/</g, '\\u003c'),
+      });
+    }
+  }
+
+  return tags;
+}
+
+// =======================
+// SSR
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export function renderSeoTags(seo: SeoMeta): string {
+  const tags = collectTags(seo).map((tag) => {
+    const attributes = Object.entries({ ...tag.attributes, [SEO_ATTRIBUTE]: '' })
+      .map(([name, value]) => (value ? `${name}="${escapeHtml(value)}"` : name))
+      .join(' ');
+    return tag.tag === 'script' ? `<script ${attributes}>${tag.content}</script>` : `<${tag.tag} ${attributes}>`;
+  });
+  return [`<title>${escapeHtml(seo.title ?? 'App')}</title>`, ...tags].join('\n');
+}
+
+// =======================
+// Клиент: заменяем управляемые теги в document.head
+export function applySeoToDocument(seo: SeoMeta) {
+  if (typeof document === 'undefined') return;
+
+  document.title = seo.title ?? 'App';
+  document.head.querySelectorAll(`[${SEO_ATTRIBUTE}]`).forEach((element) => element.remove());
+
+  for (const tag of collectTags(seo)) {
+    const element = document.createElement(tag.tag);
+    for (const [name, value] of Object.entries(tag.attributes)) {
+      element.setAttribute(name, value);
+    }
+    element.setAttribute(SEO_ATTRIBUTE, '');
+    if (tag.tag === 'script') {
+      element.textContent = tag.content;
+    }
+    document.head.appendChild(element);
+  }
+}
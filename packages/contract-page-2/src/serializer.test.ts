@@ -0,0 +1,91 @@
+// defaultSerializer сохраняет типы, которые теряет JSON, serializeForScript безопасно встраивает
+// данные в inline <script>
+
+import { describe, expect, it } from 'vitest';
+import { defaultSerializer, jsonSerializer, serializeForScript } from './serializer';
+
+const roundTrip = (value: unknown) => defaultSerializer.parse(defaultSerializer.stringify(value));
+
+describe('defaultSerializer', () => {
+  it('keeps primitives and special numbers', () => {
+    for (const value of [null, true, 'text', 42, undefined, NaN, Infinity, -Infinity]) {
+      expect(roundTrip(value)).toEqual(value);
+    }
+    expect(Object.is(roundTrip(-0), -0)).toBe(true);
+    expect(roundTrip({ a: undefined })).toHaveProperty('a', undefined);
+  });
+
+  it('keeps Date, Map, Set, BigInt and RegExp', () => {
+    const value = {
+      date: new Date('2024-01-02T03:04:05.000Z'),
+      invalid: new Date(NaN),
+      map: new Map<unknown, unknown>([['a', 1], [{ key: true }, [2]]]),
+      set: new Set(['x', 'y']),
+      big: 12345678901234567890n,
+      pattern: /a+b/gi,
+    };
+    const result = roundTrip(value) as typeof value;
+    expect(result.date).toBeInstanceOf(Date);
+    expect(result.date.toISOString()).toBe('2024-01-02T03:04:05.000Z');
+    expect(Number.isNaN(result.invalid.getTime())).toBe(true);
+    expect(result.map).toEqual(value.map);
+    expect(result.set).toEqual(value.set);
+    expect(result.big).toBe(12345678901234567890n);
+    expect(result.pattern).toEqual(/a+b/gi);
+  });
+
+  it('keeps array holes and drops functions', () => {
+    const result = roundTrip({ list: [1, , 3], fn: () => 1 }) as { list: unknown[] };
+    expect(result.list).toHaveLength(3);
+    expect(1 in result.list).toBe(false);
+    expect(result).not.toHaveProperty('fn');
+  });
+
+  it('restores repeated and cyclic references', () => {
+    const shared = { id: 1 };
+    const cyclic: Record<string, unknown> = { shared, again: shared };
+    cyclic.self = cyclic;
+    const map = new Map<string, unknown>();
+    map.set('map', map);
+
+    const result = roundTrip({ cyclic, map }) as { cyclic: any; map: Map<string, unknown> };
+    expect(result.cyclic.self).toBe(result.cyclic);
+    expect(result.cyclic.again).toBe(result.cyclic.shared);
+    expect(result.map.get('map')).toBe(result.map);
+  });
+
+  it('keeps __proto__ as a plain key', () => {
+    const value = JSON.parse('{"__proto__":{"polluted":true},"name":"x"}');
+    const result = roundTrip(value) as Record<string, unknown>;
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect(Object.keys(result)).toEqual(['__proto__', 'name']);
+    expect(Object.getOwnPropertyDescriptor(result, '__proto__')?.value).toEqual({ polluted: true });
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('produces valid JSON', () => {
+    expect(() => JSON.parse(defaultSerializer.stringify({ date: new Date(0), list: [1, 2] }))).not.toThrow();
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => defaultSerializer.parse('{"a":1}')).toThrow('Invalid serialized data');
+    expect(() => defaultSerializer.parse('[["Unknown"]]')).toThrow('Unknown serialized type "Unknown"');
+    expect(() => defaultSerializer.parse('-42')).toThrow('Invalid serialized index -42');
+  });
+});
+
+describe('serializeForScript', () => {
+  const dangerous = { html: '</script><script>alert(1)</script><!--', lines: 'a\u2028b\u2029c' };
+
+  it.each([
+    ['defaultSerializer', defaultSerializer],
+    ['jsonSerializer', jsonSerializer],
+  ])('escapes markup and line separators (%s)', (_, serializer) => {
+    const literal = serializeForScript(serializer, dangerous);
+    expect(literal).not.toContain('<');
+    expect(literal).not.toContain('\u2028');
+    expect(literal).not.toContain('\u2029');
+    // Литерал - строка JS, которая разбирается обратно в исходные данные
+    expect(serializer.parse(JSON.parse(literal))).toEqual(dangerous);
+  });
+});
@@ -0,0 +1,216 @@
+// Сериализация данных для клиента: window.__INITIAL_*, __APP_CTX__, __DEFERRED__, ответы /api/page
+// и actions, JSON prerender'а. Сериализатор задается в defineApp({ serializer }) и одинаков на сервере и клиенте.
+//
+// defaultSerializer сохраняет то, что теряет JSON: Date, Map, Set, BigInt, RegExp, undefined, NaN,
+// Infinity, -0, повторяющиеся и циклические ссылки. Значение раскладывается в плоский массив,
+// ссылки - индексы в нем (отрицательные индексы - константы):
+//   { a: 1, b: [2] }      -> [{"a":1,"b":2},1,[3],2]
+//   new Date(0)           -> [["Date","1970-01-01T00:00:00.000Z"]]
+// Результат - валидный JSON, поэтому его можно отдавать как application/json
+
+// =======================
+// Типы
+export interface Serializer {
+  stringify: (value: unknown) => string;
+  parse: (text: string) => unknown;
+}
+
+// =======================
+// Константы вместо индексов
+const UNDEFINED = -1;
+const HOLE = -2;
+const NAN = -3;
+const POSITIVE_INFINITY = -4;
+const NEGATIVE_INFINITY = -5;
+const NEGATIVE_ZERO = -6;
+
+function flatten(value: unknown): string {
+  const values: unknown[] = [];
+  const indexes = new Map<unknown, number>();
+
+  const add = (thing: unknown): number => {
+    // Функции и символы, как и в JSON, не сериализуются
+    if (thing === undefined || typeof thing === 'function' || typeof thing === 'symbol') return UNDEFINED;
+    if (typeof thing === 'number') {
+      if (Number.isNaN(thing)) return NAN;
+      if (thing === Infinity) return POSITIVE_INFINITY;
+      if (thing === -Infinity) return NEGATIVE_INFINITY;
+      if (thing === 0 && 1 / thing < 0) return NEGATIVE_ZERO;
+    }
+
+    const existing = indexes.get(thing);
+    if (existing !== undefined) return existing;
+    const index = values.length;
+    indexes.set(thing, index);
+    values.push(null);
+    values[index] = encode(thing);
+    return index;
+  };
+
+  const encode = (thing: unknown): unknown => {
+    if (typeof thing === 'bigint') return ['BigInt', thing.toString()];
+    if (thing === null || typeof thing !== 'object') return thing;
+
+    if (thing instanceof Date) {
+      return ['Date', Number.isNaN(thing.getTime()) ? '' : thing.toISOString()];
+    }
+    if (thing instanceof RegExp) return ['RegExp', thing.source, thing.flags];
+    if (thing instanceof Map) {
+      const encoded: unknown[] = ['Map'];
+      thing.forEach((entryValue, key) => encoded.push(add(key), add(entryValue)));
+      return encoded;
+    }
+    if (thing instanceof Set) {
+      const encoded: unknown[] = ['Set'];
+      thing.forEach((item) => encoded.push(add(item)));
+      return encoded;
+    }
+    if (Array.isArray(thing)) {
+      return Array.from({ length: thing.length }, (_, i) => (i in thing ? add(thing[i]) : HOLE));
+    }
+
+    const encoded: Record<string, number> = {};
+    for (const [key, item] of Object.entries(thing)) {
+      if (typeof item === 'function' || typeof item === 'symbol') continue;
+      // Присваивание encoded['__proto__'] заменило бы прототип вместо свойства
+      Object.defineProperty(encoded, key, { value: add(item), enumerable: true, writable: true, configurable: true });
+    }
+    return encoded;
+  };
+
+  const root = add(value);
+  return root < 0 ? String(root) : JSON.stringify(values);
+}
+
+function unflatten(text: string): unknown {
+  const parsed = JSON.parse(text);
+  if (typeof parsed === 'number') return constant(parsed);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid serialized data');
+  }
+
+  const values: unknown[] = parsed;
+  const hydrated = new Map<number, unknown>();
+
+  const get = (index: number): unknown => {
+    if (index < 0) return constant(index);
+    if (hydrated.has(index)) return hydrated.get(index);
+
+    const raw = values[index];
+    if (raw === null || typeof raw !== 'object') {
+      hydrated.set(index, raw);
+      return raw;
+    }
+
+    if (Array.isArray(raw)) {
+      if (typeof raw[0] === 'string') {
+        return decodeTagged(index, raw as [string, ...any[]]);
+      }
+      const array: unknown[] = new Array(raw.length);
+      hydrated.set(index, array);
+      raw.forEach((item: number, i) => {
+        if (item !== HOLE) array[i] = get(item);
+      });
+      return array;
+    }
+
+    const object: Record<string, unknown> = {};
+    hydrated.set(index, object);
+    for (const [key, item] of Object.entries(raw as Record<string, number>)) {
+      // '__proto__' - обычное свойство, а не прототип
+      Object.defineProperty(object, key, { value: get(item), enumerable: true, writable: true, configurable: true });
+    }
+    return object;
+  };
+
+  // Контейнер регистрируется до заполнения, чтобы циклические ссылки указывали на него
+  const decodeTagged = (index: number, [tag, ...args]: [string, ...any[]]): unknown => {
+    switch (tag) {
+      case 'BigInt': {
+        const value = BigInt(args[0]);
+        hydrated.set(index, value);
+        return value;
+      }
+      case 'Date': {
+        const value = new Date(args[0] || NaN);
+        hydrated.set(index, value);
+        return value;
+      }
+      case 'RegExp': {
+        const value = new RegExp(args[0], args[1]);
+        hydrated.set(index, value);
+        return value;
+      }
+      case 'Map': {
+        const map = new Map();
+        hydrated.set(index, map);
+        for (let i = 0; i < args.length; i += 2) {
+          map.set(get(args[i]), get(args[i + 1]));
+        }
+        return map;
+      }
+      case 'Set': {
+        const set = new Set();
+        hydrated.set(index, set);
+        for (const item of args) {
+          set.add(get(item));
+        }
+        return set;
+      }
+      default:
+        throw new Error(`Unknown serialized type "${tag}"`);
+    }
+  };
+
+  return get(0);
+}
+
+function constant(index: number): unknown {
+  switch (index) {
+    case UNDEFINED:
+      return undefined;
+    case NAN:
+      return NaN;
+    case POSITIVE_INFINITY:
+      return Infinity;
+    case NEGATIVE_INFINITY:
+      return -Infinity;
+    case NEGATIVE_ZERO:
+      return -0;
+    default:
+      throw new Error(`Invalid serialized index ${index}`);
+  }
+}
+
+// =======================
+// Сериализаторы
+export const defaultSerializer: Serializer = {
+  stringify: flatten,
+  parse: unflatten,
+};
+
+// Обычный JSON: /api/page читается любым клиентом, но Date, Map и т.п. приходят строками и объектами
+export const jsonSerializer: Serializer = {
+  stringify: (value) => JSON.stringify(value) ?? 'null',
+  parse: (text) => JSON.parse(text),
+};
+
+// Значение для inline <script>: строковый литерал с сериализованными данными.
+// '<' (</script>, <!--) и разделители строк U+2028/U+2029 экранируются
+export function serializeForScript(serializer: Serializer, value: unknown) {
+  return JSON.stringify(serializer.stringify(value))
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+// Сериализатор клиента (задается в defineApp): роутер и actions разбирают им ответы /api/page и /api/action
+let clientSerializer: Serializer = defaultSerializer;
+
+export function setSerializer(serializer: Serializer) {
+  clientSerializer = serializer;
+}
+
+export function getSerializer(): Serializer {
+  return clientSerializer;
+}
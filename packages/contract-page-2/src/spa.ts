@@ -1,27 +1,116 @@
 // SPA Enhancement для contract-page-2
 // Этот файл содержит enhanceContractWithSPA и связанные функции
 
-import type { Contract, RuntimeContext } from './index';
+import type { Contract, RouteParams, RuntimeServices, UrlFromPath } from './index';
+import { dehydrateResult, hydrateResult, settleDeferred } from './defer';
+import type { PageErrorResult } from './errors';
+import { defaultDocument, inlineScript, nonceAttribute, type DocumentRender } from './document';
+import { getContexts, type RouteContextValue } from './hooks';
+import {
+  createRequestHandler,
+  resolveClientEntry,
+  type DocumentRenderer,
+  type RequestHandlerOptions,
+} from './handler';
+import { createPageLoader } from './loader';
+import { toExpressMiddleware } from './node';
+import { prerenderApp, type PrerenderOptions } from './prerender';
+import { setReact } from './react';
+import { browserRuntime, type ServerRequest } from './request';
+import { defaultSerializer, serializeForScript, setSerializer, type Serializer } from './serializer';
+import {
+  applyScroll,
+  getInitialScroll,
+  getLocationUrl,
+  layoutDataCache,
+  load,
+  navigate,
+  normalizeUrl,
+  startRouter,
+  subscribeRouter,
+  type NavigateOptions,
+  type ScrollTarget,
+} from './router';
+import { applySeoToDocument, renderSeoTags, resolveSeo, type SeoOptions } from './seo';
+
+// Отложенные данные, дописанные в поток SSR (window.__DEFERRED__)
+function streamedDeferred() {
+  return typeof window !== 'undefined' ? (window as any).__DEFERRED__ || {} : {};
+}
+
+// Данные документа (window.__INITIAL_*, __APP_CTX__, __DEFERRED__) приходят строками сериализатора
+function decodeDocumentData(serializer: Serializer) {
+  const data = window as any;
+  for (const key of ['__INITIAL_DATA__', '__INITIAL_LAYOUTS__', '__INITIAL_PARAMS__', '__APP_CTX__']) {
+    if (typeof data[key] === 'string') {
+      data[key] = serializer.parse(data[key]);
+    }
+  }
+  for (const [id, settled] of Object.entries(data.__DEFERRED__ || {})) {
+    if (typeof settled === 'string') {
+      data.__DEFERRED__[id] = serializer.parse(settled);
+    }
+  }
+}
+
+// Восстановление defer()-полей в данных layout'ов
+function hydrateLayouts(layouts: Record<string, any>) {
+  const hydrated: Record<string, any> = {};
+  for (const [key, layoutContext] of Object.entries(layouts)) {
+    hydrated[key] = hydrateResult(layoutContext, streamedDeferred());
+  }
+  return hydrated;
+}
 
-const navigationCache = new Map<string, { data: any; timestamp: number }>();
-const CACHE_TTL = 100;
+// Результат renderPage: HTML документа или redirect
+export type RenderedPage = { status: number; html: string } | { status: number; redirect: string };
 
 export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>) {
+  // Итоговое seo страницы: defaults приложения < seo layout'ов < seo страницы
+  const resolvePageSeo = (
+    seoOptions: SeoOptions | undefined,
+    url: string,
+    pageContext: any,
+    layouts: Record<string, any>
+  ) => {
+    const layoutSeo = contract.matchRoute(url).layouts.map((layout) => layouts[layout.key]?.seo);
+    return resolveSeo(seoOptions, ...layoutSeo, pageContext?.seo);
+  };
+
   const createAppComponent = (options: any) => {
-    const { React, renderApp, notFound, loading } = options;
+    const {
+      React,
+      renderApp,
+      notFound,
+      loading,
+      error: errorView,
+      seo: seoOptions,
+      // Показывать текущую страницу, пока загружаются данные следующей
+      keepPreviousView = false,
+      // Через сколько ms ожидания все же показать loading (только с keepPreviousView)
+      loadingThreshold,
+      // Сменять страницы через View Transitions API
+      viewTransition = false,
+      // Жизненный цикл appContext: он переиспользуется между переходами и загружается заново
+      // после invalidateAppContext(), action и при переходе в другую область dependsOn:
+      //   appContext: { dependsOn: ['/admin', '/account'] }
+      appContext: appContextOptions = {},
+    } = options;
     const { useState, useEffect, createElement } = React;
 
     const AppComponent = ({
       appContext: ssrAppContext,
       ssrUrl,
       ssrPageContext,
+      ssrLayouts,
       ssrParams,
       isProd: isProdProp,
     }: {
       appContext?: AppCtx;
       ssrUrl?: string;
       ssrPageContext?: any;
-      ssrParams?: Record<string, string>;
+      ssrLayouts?: Record<string, any>;
+      ssrParams?: RouteParams;
       isProd?: boolean;
     }) => {
       // Определяем режим продакшн (из пропа или из окружения)
@@ -30,12 +119,64 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
         : process.env.NODE_ENV === 'production';
       const isSSR = typeof window === 'undefined';
       const [url, setUrl] = useState(
-        ssrUrl || (typeof window !== 'undefined' ? window.location.pathname : '/')
+        ssrUrl || (typeof window !== 'undefined' ? getLocationUrl() : '/')
       );
       const [pageContext, setPageContext] = useState(
-        ssrPageContext || (typeof window !== 'undefined' ? (window as any).__INITIAL_DATA__ : null)
+        ssrPageContext ||
+          (typeof window !== 'undefined' ? hydrateResult((window as any).__INITIAL_DATA__, streamedDeferred()) : null)
+      );
+      // Params страницы, приведенные схемой на сервере (null - params невалидны)
+      const [pageParams, setPageParams] = useState(
+        ssrParams !== undefined
+          ? ssrParams
+          : (typeof window !== 'undefined' ? (window as any).__INITIAL_PARAMS__ : undefined)
+      );
+      const [layoutData, setLayoutData] = useState(
+        ssrLayouts ||
+          (typeof window !== 'undefined' ? hydrateLayouts((window as any).__INITIAL_LAYOUTS__ || {}) : null) ||
+          {}
       );
       const [isLoading, setIsLoading] = useState(false);
+      // Завершение текущего view transition (вызывается после рендера новой страницы)
+      const [viewTransitionDone] = useState(() => ({ current: null as (() => void) | null }));
+      // Прокрутка, которую нужно применить после рендера показанной страницы
+      const [pendingScroll] = useState(() => ({ current: null as ScrollTarget | null }));
+
+      // Применение ответа /api/page: данные layout'ов, которых нет в ответе, переиспользуются,
+      // данные layout'ов, не относящихся к новому url, отбрасываются
+      const applyPageData = (
+        targetUrl: string,
+        data: { page: any; layouts: Record<string, any>; params: any }
+      ) => {
+        const keys = contract.matchRoute(targetUrl).layouts.map((layout) => layout.key);
+        const loadedLayouts = hydrateLayouts(data.layouts);
+        setLayoutData((prev: Record<string, any>) => {
+          const next: Record<string, any> = {};
+          for (const key of keys) {
+            const layoutContext = loadedLayouts[key] || prev[key];
+            if (layoutContext) next[key] = layoutContext;
+          }
+          return next;
+        });
+        setPageParams(data.params);
+        setPageContext(hydrateResult(data.page));
+      };
+
+      // Обновление <head> после навигации (когда данные новой страницы загружены)
+      useEffect(() => {
+        if (isSSR || isLoading) return;
+        if (contract.matchRoute(url).page && !pageContext) return;
+        applySeoToDocument(resolvePageSeo(seoOptions, url, pageContext, layoutData));
+      }, [pageContext, layoutData, isLoading]);
+
+      // Синхронизация кеша layout'ов для запросов навигации
+      useEffect(() => {
+        if (isSSR) return;
+        layoutDataCache.clear();
+        for (const key of Object.keys(layoutData)) {
+          layoutDataCache.set(key, layoutData[key]);
+        }
+      }, [layoutData]);
       
       // Инициализация appContext из window.__APP_CTX__ если есть (для hydration)
       const [appContextState, setAppContextState] = useState(
@@ -45,47 +186,14 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
       );
       const [isLoadingAppContext, setIsLoadingAppContext] = useState(false);
 
-      // Обработка popstate события
-      useEffect(() => {
-        if (isSSR) return;
-        const onPopState = () => setUrl(window.location.pathname);
-        window.addEventListener('popstate', onPopState);
-        return () => window.removeEventListener('popstate', onPopState);
-      }, []);
-
-      // Загрузка appContext (но не при hydration)
-      useEffect(() => {
-        if (isSSR) return;
+      // appContext, вычисленный на клиенте: документ и данные страницы без appContext (prerender).
+      // С сервером appContext приходит вместе с данными страницы (роутер запрашивает его, когда он устарел)
+      const loadClientAppContext = (targetUrl: string) => {
         const contractWithGetAppContext = contract as any;
-        if (!('getAppContext' in contractWithGetAppContext) || !contractWithGetAppContext.getAppContext) {
-          return;
-        }
-
-        // Проверяем, является ли страница not found
-        const matched = contract.matchRoute(url);
-        const isNotFound = !matched.page;
-
-        // Проверяем, является ли это hydration (первая загрузка с SSR данными)
-        // Для обычных страниц есть window.__INITIAL_DATA__, для not found может быть null
-        // Но для обеих может быть window.__APP_CTX__ если appContext вычислялся на сервере
-        const isInitialLoad = url === window.location.pathname;
-        const hasInitialAppContext = isInitialLoad && (window as any).__APP_CTX__ !== undefined;
-        const hasInitialData = (window as any).__INITIAL_DATA__ !== undefined;
-        
-        // При hydration используем window.__APP_CTX__ если есть, не загружаем повторно
-        // Это работает и для обычных страниц, и для not found страниц
-        // Для not found страницы __INITIAL_DATA__ может быть null, но __APP_CTX__ может быть установлен
-        if (hasInitialAppContext && (hasInitialData || isNotFound)) {
-          // window.__APP_CTX__ уже использован в useState инициализации (строка 38)
-          // Очищаем его после первого использования, чтобы при следующих навигациях загружался новый
-          delete (window as any).__APP_CTX__;
-          return;
-        }
+        if (!contractWithGetAppContext.getAppContext) return;
 
-        // Для всех страниц (включая not-found) при каждой навигации загружаем appContext
         setIsLoadingAppContext(true);
-        const runtimeCtx: RuntimeContext = { url };
-        Promise.resolve(contractWithGetAppContext.getAppContext(runtimeCtx))
+        Promise.resolve(contractWithGetAppContext.getAppContext(browserRuntime(targetUrl)))
           .then((newAppContext: AppCtx) => {
             setAppContextState(newAppContext);
             setIsLoadingAppContext(false);
@@ -96,96 +204,149 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
             }
             setIsLoadingAppContext(false);
           });
-      }, [url]);
+      };
 
-      // Загрузка pageContext
+      // Загрузка pageContext. После первой загрузки данные приходят из роутера
+      // (navigateTo, Link, назад/вперед, revalidate)
       useEffect(() => {
         if (isSSR) return;
 
-        const initialData = (window as any).__INITIAL_DATA__;
-        if (initialData && url === window.location.pathname) {
-          if (initialData.type === 'redirect') {
-            const targetUrl = initialData.to;
-            if (targetUrl !== url) {
-              window.history.replaceState({}, '', targetUrl);
-              setUrl(targetUrl);
-              delete (window as any).__INITIAL_DATA__;
-              return;
+        let loadingTimer: ReturnType<typeof setTimeout> | undefined;
+        const showLoading = () => {
+          setPageContext(null);
+          setIsLoading(true);
+        };
+
+        const unsubscribe = subscribeRouter((event) => {
+          if (event.type === 'start') {
+            clearTimeout(loadingTimer);
+            // При перезагрузке текущей страницы она остается на экране
+            if (event.revalidation) return;
+            if (!(event.keepPreviousView ?? keepPreviousView)) {
+              showLoading();
+            } else if (loadingThreshold !== undefined) {
+              loadingTimer = setTimeout(showLoading, loadingThreshold);
             }
-            delete (window as any).__INITIAL_DATA__;
             return;
           }
-          setPageContext(initialData);
-          delete (window as any).__INITIAL_DATA__;
-          return;
-        }
+          if (event.type !== 'commit') return;
+          clearTimeout(loadingTimer);
 
-        const cached = navigationCache.get(url);
-        if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-          const data = cached.data;
-          navigationCache.delete(url);
-          if (data.type === 'redirect') {
-            const targetUrl = data.to;
-            if (targetUrl !== url) {
-              window.history.replaceState({}, '', targetUrl);
-              setUrl(targetUrl);
-              return;
+          const { url: committedUrl, data } = event;
+          const showPage = () => {
+            pendingScroll.current = event.scroll;
+            setUrl(committedUrl);
+            setIsLoading(false);
+            if ('appContext' in data) {
+              setAppContextState(data.appContext as AppCtx);
+            } else if (event.appContext) {
+              loadClientAppContext(committedUrl);
             }
+            if (data.page.type === 'redirect') return;
+            applyPageData(committedUrl, data);
+          };
+
+          const startViewTransition = (document as any).startViewTransition;
+          if (event.revalidation || !(event.viewTransition ?? viewTransition) || typeof startViewTransition !== 'function') {
+            showPage();
+            return;
+          }
+          // Браузер снимает старый вид, затем ждет, пока промис не выполнится после рендера новой страницы
+          startViewTransition.call(
+            document,
+            () =>
+              new Promise<void>((resolve) => {
+                viewTransitionDone.current = resolve;
+                showPage();
+              })
+          );
+        });
+        const initialData = (window as any).__INITIAL_DATA__;
+        delete (window as any).__INITIAL_DATA__;
+        // window.__APP_CTX__ уже использован в инициализации appContextState
+        const hasInitialAppContext = (window as any).__APP_CTX__ !== undefined;
+        delete (window as any).__APP_CTX__;
+        // Документ без SSR-данных страницы: данные и appContext загрузит роутер
+        const loadsInitialData = initialData === undefined && !!contract.matchRoute(url).page;
+
+        const usesAppContext = !!(contract as any).getAppContext;
+        startRouter({
+          isProduction,
+          appContext: usesAppContext ? { dependsOn: appContextOptions.dependsOn || [], loaded: !loadsInitialData } : undefined,
+        });
+        pendingScroll.current = getInitialScroll();
+        if (usesAppContext && !hasInitialAppContext && !loadsInitialData) {
+          loadClientAppContext(url);
+        }
+        if (initialData?.type === 'redirect') {
+          if (normalizeUrl(initialData.to) !== url) {
+            navigate(initialData.to, { replace: true });
           }
-          setPageContext(data);
-          setIsLoading(false);
-          return;
+        } else if (initialData) {
+          setPageContext(hydrateResult(initialData, streamedDeferred()));
+        } else if (initialData === undefined && contract.matchRoute(url).page) {
+          // Документ без SSR-данных страницы
+          load(url, 'none');
         }
+        return () => {
+          clearTimeout(loadingTimer);
+          unsubscribe();
+        };
+      }, []);
 
-        setPageContext(null);
-        setIsLoading(true);
-        fetch(`/api/page?url=${encodeURIComponent(url)}`)
-          .then((res) => {
-            if (res.status === 302 || res.status === 301) {
-              const location = res.headers.get('Location');
-              if (location) {
-                const targetUrl = new URL(location, window.location.origin).pathname;
-                setIsLoading(false);
-                window.history.replaceState({}, '', targetUrl);
-                setUrl(targetUrl);
-                return null;
-              }
-            }
-            return res.json();
-          })
-          .then((data) => {
-            if (!data) return;
-            if (data.type === 'redirect') {
-              const targetUrl = data.to;
-              if (targetUrl !== url) {
-                setIsLoading(false);
-                window.history.replaceState({}, '', targetUrl);
-                setUrl(targetUrl);
-                return;
-              }
-              setIsLoading(false);
-              return;
-            }
-            setPageContext(data);
-            setIsLoading(false);
-          })
-          .catch((err) => {
-            if (!isProduction) {
-              console.error('Failed to fetch page data:', err);
-            }
-            setPageContext({ type: 'error', error: err.message });
-            setIsLoading(false);
-          });
-      }, [url]);
+      // Завершение view transition и прокрутка после рендера новой страницы
+      useEffect(() => {
+        const done = viewTransitionDone.current;
+        viewTransitionDone.current = null;
+        done?.();
+
+        if (isLoading || !pendingScroll.current) return;
+        const target = pendingScroll.current;
+        pendingScroll.current = null;
+        // View страницы может управлять прокруткой сам: defineView(View, { scroll: false })
+        if ((contract.matchRoute(url).page as any)?.scroll !== false) {
+          applyScroll(target);
+        }
+      });
 
       const matched = contract.matchRoute(url);
       const { page, component: PageComponent } = matched as any;
-      const params = ssrParams || matched.params;
+      const params = pageParams || matched.params;
+      const search = matched.search;
       const needsAppContext = 'getAppContext' in contract;
       const appContextReady = !needsAppContext || (appContextState !== undefined && !isLoadingAppContext);
 
+      // Error view страницы, иначе error view приложения
+      const renderError = (error: PageErrorResult, ErrorComponent?: any) => {
+        const errorProps: any = { error, params, search };
+        if ('getAppContext' in contract) {
+          errorProps.appContext = appContextState;
+        }
+        if (ErrorComponent) return createElement(ErrorComponent, errorProps);
+        return errorView
+          ? errorView(errorProps)
+          : createElement('div', null, `${error.status} ${error.message}`);
+      };
+
+      // Значения контекста роутов от внешнего layout'а к странице (usePageContext, useParams)
+      const contexts = getContexts();
+      const provide = (context: 'app' | 'route', value: unknown, children: any) =>
+        contexts ? createElement(contexts[context].Provider, { value }, children) : children;
+      const matchedLayouts = page ? matched.layouts : [];
+      const layoutRoutes: (RouteContextValue | null)[] = [];
+      let parentRoute: RouteContextValue | null = null;
+      for (const { layout, params: layoutParams, search: layoutSearch, key } of matchedLayouts) {
+        const layoutContext = layoutData[key];
+        if (layoutContext?.type === 'ok') {
+          parentRoute = { route: layout, pageContext: layoutContext, params: layoutParams, search: layoutSearch, parent: parentRoute };
+        }
+        layoutRoutes.push(parentRoute);
+      }
+
       let routerOutput;
-      if (!page || !PageComponent) {
+      if (page && pageContext?.type === 'error') {
+        routerOutput = renderError(pageContext, page.errorComponent);
+      } else if (!page || !PageComponent || (pageContext && pageParams === null)) {
         routerOutput = notFound ? notFound() : createElement('div', null, '404 Not Found');
       } else if (!appContextReady || isLoading || !pageContext) {
         routerOutput = loading ? loading() : createElement('div', null, 'Loading...');
@@ -193,18 +354,61 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
         const pageProps: any = {
           pageContext,
           params,
+          search,
         };
         if ('getAppContext' in contract) {
           pageProps.appContext = appContextState;
         }
-        routerOutput = createElement(PageComponent, pageProps);
+        routerOutput = provide(
+          'route',
+          { route: page, pageContext, params, search, parent: parentRoute },
+          createElement(PageComponent, pageProps)
+        );
+      }
+
+      // Оборачиваем вывод в layout'ы от внутреннего к внешнему.
+      // Layout без загруженных данных показывает loading вместо вложенного контента
+      for (let i = matchedLayouts.length - 1; i >= 0; i--) {
+        const { layout, params: layoutParams, search: layoutSearch, key } = matchedLayouts[i];
+        const LayoutComponent = (layout as any).component;
+        const layoutContext = layoutData[key];
+        if (!layoutContext) {
+          // Загрузка остановлена до page() layout'а (guard, ошибка appContext) - выводим без него
+          if (pageContext && !isLoading) continue;
+          routerOutput = loading ? loading() : createElement('div', null, 'Loading...');
+          continue;
+        }
+        if (layoutContext.type === 'error') {
+          routerOutput = renderError(layoutContext);
+          continue;
+        }
+        if (layoutContext.type !== 'ok') {
+          routerOutput = notFound ? notFound() : createElement('div', null, '404 Not Found');
+          continue;
+        }
+        if (!LayoutComponent) continue;
+
+        const layoutProps: any = {
+          pageContext: layoutContext,
+          params: layoutParams,
+          search: layoutSearch,
+          children: routerOutput,
+        };
+        if ('getAppContext' in contract) {
+          layoutProps.appContext = appContextState;
+        }
+        routerOutput = provide('route', layoutRoutes[i], createElement(LayoutComponent, layoutProps));
       }
 
       const currentAppContext = isSSR ? ssrAppContext : appContextState;
-      return renderApp(
-        currentAppContext !== undefined
-          ? { router: routerOutput, appContext: currentAppContext }
-          : { router: routerOutput }
+      return provide(
+        'app',
+        currentAppContext,
+        renderApp(
+          currentAppContext !== undefined
+            ? { router: routerOutput, appContext: currentAppContext }
+            : { router: routerOutput }
+        )
       );
     };
 
@@ -214,10 +418,189 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
   return {
     ...contract,
     defineApp: (options: any) => {
-      const { React, renderApp, notFound, loading } = options;
+      const { React, renderApp, notFound, loading, seo: seoOptions } = options;
+      // Сериализатор данных для клиента (одинаковый на сервере и клиенте)
+      const serializer: Serializer = options.serializer || defaultSerializer;
       const { createElement } = React;
+      setReact(React);
+      setSerializer(serializer);
       const { AppComponent } = createAppComponent(options);
 
+      // HTML-документ: head (seo), разметка приложения, inline-скрипт с данными и модуль клиента.
+      // Шаблон - document из опций сервера, defineApp({ document }) или документ по умолчанию
+      const documentHtml = (doc: {
+        head: string;
+        appHtml: string;
+        script: string;
+        clientEntry: string;
+        nonce?: string | undefined;
+        document?: DocumentRender | undefined;
+      }) => {
+        const render: DocumentRender = doc.document || options.document || defaultDocument;
+        return render({
+          head: doc.head,
+          appHtml: doc.appHtml,
+          scripts:
+            (doc.script ? inlineScript(doc.script, doc.nonce) : '') +
+            `<script type="module"${nonceAttribute(doc.nonce)} src="${doc.clientEntry}"></script>`,
+          nonce: doc.nonce,
+        });
+      };
+
+      // Данные страницы для клиента (window.__INITIAL_*). result = null - страница не найдена
+      const initialDataScript = (page: {
+        result: any;
+        layouts: Record<string, any>;
+        pageParams: any;
+        appContext: AppCtx | undefined;
+      }) => `
+        window.__INITIAL_DATA__ = ${serializeForScript(serializer, page.result)};
+        window.__INITIAL_LAYOUTS__ = ${serializeForScript(serializer, page.layouts)};
+        window.__INITIAL_PARAMS__ = ${serializeForScript(serializer, page.pageParams)};
+        ${page.appContext ? `window.__APP_CTX__ = ${serializeForScript(serializer, page.appContext)};` : ''}
+      `;
+
+      // Документ, отрендеренный renderToString (отложенные данные дожидаются заранее).
+      // result = null - страница не найдена
+      const renderDocument = async (page: {
+        url: string;
+        appContext: AppCtx | undefined;
+        result: any;
+        layouts: Record<string, any>;
+        pageParams: any;
+        renderToString: (element: any) => string;
+        clientEntry: string;
+        isProduction: boolean;
+        // appContext в документе (false - клиент получит его сам через getAppContext)
+        embedAppContext?: boolean;
+        // Дополнительный inline-скрипт
+        script?: string;
+        nonce?: string | undefined;
+        document?: DocumentRender | undefined;
+      }) => {
+        const { url, appContext, result, layouts, pageParams, isProduction, embedAppContext = true, script = '' } = page;
+        await settleDeferred([result, ...Object.values(layouts)]);
+        const appHtml = page.renderToString(
+          createElement(AppComponent, {
+            appContext,
+            ssrUrl: url,
+            ssrPageContext: result,
+            ssrLayouts: layouts,
+            ssrParams: pageParams,
+          })
+        );
+        return documentHtml({
+          head: renderSeoTags(resolvePageSeo(seoOptions, url, result, layouts)),
+          appHtml,
+          script: initialDataScript({
+            result: dehydrateResult(result, isProduction),
+            layouts: Object.fromEntries(
+              Object.entries(layouts).map(([key, layoutContext]) => [key, dehydrateResult(layoutContext, isProduction)])
+            ),
+            pageParams,
+            appContext: embedAppContext ? appContext : undefined,
+          }) + script,
+          clientEntry: page.clientEntry,
+          nonce: page.nonce,
+          document: page.document,
+        });
+      };
+
+      // SSR документа по url без HTTP-сервера (runServer без потокового рендера, testing).
+      // redirect возвращается как есть - его отдает вызывающий
+      const renderPage = async (
+        url: string,
+        options: {
+          renderToString: (element: any) => string;
+          clientEntry: string;
+          isProduction: boolean;
+          services?: RuntimeServices | undefined;
+          // HTTP-запрос (runtime.headers, cookies, response)
+          request?: ServerRequest | undefined;
+          nonce?: string | undefined;
+          document?: DocumentRender | undefined;
+        }
+      ): Promise<RenderedPage> => {
+        const { renderToString, clientEntry, isProduction, services, request, nonce, document } = options;
+        const { createRuntime, loadAppContext, loadRequestData } = createPageLoader(contract, isProduction, { services });
+
+        const matched = contract.matchRoute(url);
+        if (!matched.page) {
+          // Not found - рендерим AppComponent с notFound
+          const html = await renderDocument({
+            url,
+            appContext: await loadAppContext(createRuntime(url, request)),
+            result: null,
+            layouts: {},
+            pageParams: {},
+            renderToString,
+            clientEntry,
+            isProduction,
+            nonce,
+            document,
+          });
+          return { status: 404, html };
+        }
+
+        const {
+          appContext,
+          data: { page: result, layouts, params: pageParams },
+        } = await loadRequestData(url, matched, new Set(), request);
+        if (result.type === 'redirect') {
+          return { status: result.status || 302, redirect: result.to };
+        }
+
+        const html = await renderDocument({
+          url,
+          appContext,
+          result,
+          layouts,
+          pageParams,
+          renderToString,
+          clientEntry,
+          isProduction,
+          nonce,
+          document,
+        });
+        const status = result.type === 'error' ? result.status : result.type === 'not-found' ? 404 : 200;
+        return { status, html };
+      };
+
+      // Рендер документа для handleRequest
+      const renderer: DocumentRenderer<AppCtx> = {
+        serializer,
+        renderPage,
+        element: (page) =>
+          createElement(AppComponent, {
+            appContext: page.appContext,
+            ssrUrl: page.url,
+            ssrPageContext: page.result,
+            ssrLayouts: page.layouts,
+            ssrParams: page.pageParams,
+          }),
+        streamDocument: (page, { clientEntry, isProduction, idFor, nonce, document }) =>
+          documentHtml({
+            head: renderSeoTags(resolvePageSeo(seoOptions, page.url, page.result, page.layouts)),
+            appHtml: '<!--app-html-->',
+            script:
+              initialDataScript({
+                result: dehydrateResult(page.result, isProduction, idFor),
+                layouts: Object.fromEntries(
+                  Object.entries(page.layouts).map(([key, layoutContext]) => [
+                    key,
+                    dehydrateResult(layoutContext, isProduction, idFor),
+                  ])
+                ),
+                pageParams: page.pageParams,
+                appContext: page.appContext,
+              }) + 'window.__DEFERRED__ = {};',
+            clientEntry,
+            nonce,
+            document,
+          }),
+      };
+
+      // Express-сервер со статикой (vite в dev, sirv в prod), в который смонтирован handleRequest
       const createServerRunner = (() => {
         const isServer = typeof window === 'undefined';
         if (!isServer) {
@@ -227,31 +610,13 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
         }
 
         return (_routerOpts: any) => (serverOptions: any) => {
-          const {
-            port = 3000,
-            base = '/',
-            renderToString,
-            clientEntry: providedEntry,
-            isProd: explicitIsProd,
-          } = serverOptions;
+          const { port = 3000, base = '/', isProd: explicitIsProd } = serverOptions;
 
           const isProduction =
             explicitIsProd !== undefined
               ? explicitIsProd
               : process.env.NODE_ENV === 'production';
-
-          let clientEntry: string;
-          if (typeof providedEntry === 'object' && providedEntry !== null) {
-            clientEntry = isProduction ? providedEntry.prod : providedEntry.dev;
-          } else if (typeof providedEntry === 'string') {
-            clientEntry = providedEntry;
-          } else {
-            if (isProduction) {
-              clientEntry = '/assets/main.js';
-            } else {
-              clientEntry = '/src/client.tsx';
-            }
-          }
+          const clientEntry = resolveClientEntry(serverOptions.clientEntry, isProduction);
 
           (async () => {
             const expressModule = 'express';
@@ -315,186 +680,20 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
               }
             }
 
-            app.use(express.json());
             app.use(cors());
 
-            const contractWithGetAppContext = contract as any;
-
-            // API endpoint для SPA навигации
-            app.get('/api/page', async (req: any, res: any) => {
-              const url = req.query.url;
-              if (!url || typeof url !== 'string') {
-                return res.status(400).json({ error: 'url required' });
-              }
-
-              const { page, params } = contract.matchRoute(url);
-              if (!page) {
-                return res.status(404).json({ type: 'not-found' });
-              }
-
-              const runtimeCtx: RuntimeContext = { url };
-              let result;
-              if (
-                'getAppContext' in contractWithGetAppContext &&
-                contractWithGetAppContext.getAppContext
-              ) {
-                const appContext = await contractWithGetAppContext.getAppContext(runtimeCtx);
-                result = await (page.page as any)({ appContext, params });
-              } else {
-                result = await (page.page as any)({ params });
-              }
-
-              if (result.type === 'redirect') {
-                return res.status(result.status || 302).json(result);
-              }
-              if (result.type === 'not-found') {
-                return res.status(404).json(result);
-              }
-
-              res.json(result);
-            });
-
-            // SSR endpoint
-            app.get('*', async (req: any, res: any) => {
-              try {
-                const url = (req.originalUrl?.replace(base, '') || req.url) as string;
-
-                const { page, params } = contract.matchRoute(url);
-                if (!page) {
-                  // Not found - рендерим AppComponent с notFound
-                  let appContextForNotFound: AppCtx | undefined;
-                  if (
-                    'getAppContext' in contractWithGetAppContext &&
-                    contractWithGetAppContext.getAppContext
-                  ) {
-                    const runtimeCtx: RuntimeContext = { url };
-                    appContextForNotFound = await contractWithGetAppContext.getAppContext(runtimeCtx);
-                  }
-
-                  const appHtml = renderToString(
-                    createElement(AppComponent, {
-                      appContext: appContextForNotFound,
-                      ssrUrl: url,
-                      ssrPageContext: null,
-                      ssrParams: {},
-                    })
-                  );
-
-                  const html = `
-                    <!DOCTYPE html>
-                    <html lang="en">
-                      <head>
-                        <meta charset="UTF-8">
-                        <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                        <title>App</title>
-                      </head>
-                      <body>
-                        <div id="root">${appHtml}</div>
-                        <script>
-                          window.__INITIAL_DATA__ = null;
-                          window.__INITIAL_PARAMS__ = {};
-                          ${appContextForNotFound ? `window.__APP_CTX__ = ${JSON.stringify(appContextForNotFound)};` : ''}
-                        </script>
-                        <script type="module" src="${clientEntry}"></script>
-                      </body>
-                    </html>
-                  `;
-
-                  if (!isProduction && vite) {
-                    const transformedHtml = await vite.transformIndexHtml(req.originalUrl || req.url, html);
-                    return res.status(404).set({ 'Content-Type': 'text/html; charset=utf-8' }).send(transformedHtml);
-                  }
-                  
-                  // Production заголовки для HTML
-                  const headers: Record<string, string> = {
-                    'Content-Type': 'text/html; charset=utf-8',
-                  };
-                  if (isProduction) {
-                    // HTML не кешируем (динамический контент), но добавляем заголовки безопасности
-                    headers['Cache-Control'] = 'no-cache, no-store, must-revalidate';
-                    headers['Pragma'] = 'no-cache';
-                    headers['Expires'] = '0';
-                    headers['X-Content-Type-Options'] = 'nosniff';
-                  }
-                  
-                  return res.status(404).set(headers).send(html);
-                }
-
-                // Обычная страница
-                const runtimeCtx: RuntimeContext = { url };
-                let result: any;
-                let appContext: AppCtx | undefined;
-
-                if (
-                  'getAppContext' in contractWithGetAppContext &&
-                  contractWithGetAppContext.getAppContext
-                ) {
-                  appContext = await contractWithGetAppContext.getAppContext(runtimeCtx);
-                  result = await (page.page as any)({ appContext, params });
-                } else {
-                  result = await (page.page as any)({ params });
-                }
-
-                if (result.type === 'redirect') {
-                  return res.redirect(result.status || 302, result.to);
-                }
-
-                const appHtml = renderToString(
-                  createElement(AppComponent, {
-                    appContext,
-                    ssrUrl: url,
-                    ssrPageContext: result,
-                    ssrParams: params,
-                  })
-                );
-
-                let html = `
-                  <!DOCTYPE html>
-                  <html lang="en">
-                    <head>
-                      <meta charset="UTF-8">
-                      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-                      <title>App</title>
-                    </head>
-                    <body>
-                      <div id="root">${appHtml}</div>
-                      <script>
-                        window.__INITIAL_DATA__ = ${JSON.stringify(result)};
-                        window.__INITIAL_PARAMS__ = ${JSON.stringify(params)};
-                        ${appContext ? `window.__APP_CTX__ = ${JSON.stringify(appContext)};` : ''}
-                      </script>
-                      <script type="module" src="${clientEntry}"></script>
-                    </body>
-                  </html>
-                `;
-
-                if (!isProduction && vite) {
-                  html = await vite.transformIndexHtml(req.originalUrl || req.url, html);
-                }
-
-                const status = result.type === 'not-found' ? 404 : 200;
-                
-                // Production заголовки для HTML
-                const headers: Record<string, string> = {
-                  'Content-Type': 'text/html; charset=utf-8',
-                };
-                if (isProduction) {
-                  // HTML не кешируем (динамический контент), но добавляем заголовки безопасности
-                  headers['Cache-Control'] = 'no-cache, no-store, must-revalidate';
-                  headers['Pragma'] = 'no-cache';
-                  headers['Expires'] = '0';
-                  headers['X-Content-Type-Options'] = 'nosniff';
-                }
-                
-                res.status(status).set(headers).send(html);
-              } catch (e: any) {
-                if (vite) {
-                  vite.ssrFixStacktrace(e);
-                }
-                console.error('SSR Error:', e);
-                res.status(500).send(e.stack || e.message || 'Internal Server Error');
-              }
-            });
+            const handleRequest = createRequestHandler(
+              contract,
+              {
+                ...serverOptions,
+                clientEntry,
+                isProd: isProduction,
+                transformHtml: vite ? (url: string, html: string) => vite.transformIndexHtml(url, html) : undefined,
+                onError: (e: unknown) => vite?.ssrFixStacktrace(e),
+              },
+              renderer
+            );
+            app.use(toExpressMiddleware(handleRequest));
 
             const server = app.listen(port, () => {
               console.log(`Server running at http://localhost:${port}`);
@@ -524,6 +723,21 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
 
       return {
         runServer: createServerRunner({ notFound, loading, renderApp }),
+        // handleRequest(request: Request): Promise<Response> для встраивания в другой сервер
+        // (адаптеры toNodeHandler / toExpressMiddleware) или serverless-среду
+        createRequestHandler: (handlerOptions: RequestHandlerOptions) =>
+          createRequestHandler(contract, handlerOptions, renderer),
+        renderPage,
+        // Статическая генерация страниц в outDir (вызывается из node-скрипта сборки)
+        prerender: (prerenderOptions: PrerenderOptions) => {
+          const { renderToString, clientEntry = '/assets/main.js' } = prerenderOptions;
+          return prerenderApp(contract, prerenderOptions, {
+            serializer,
+            document: (page) => renderDocument({ ...page, renderToString, clientEntry, embedAppContext: false }),
+            shell: (script) =>
+              documentHtml({ head: renderSeoTags(resolveSeo(seoOptions)), appHtml: '', script, clientEntry }),
+          });
+        },
         runClient: (clientOptions: any) => {
           const { createRoot, isProd: explicitIsProd } = clientOptions;
           
@@ -537,65 +751,63 @@ export function enhanceContractWithSPA<AppCtx>(contract: Contract<AppCtx, any>)
           if (!rootEl) {
             throw new Error('Root element not found');
           }
+          decodeDocumentData(serializer);
 
-          createRoot(rootEl).render(
+          const root = createRoot(rootEl);
+          root.render(
             createElement(AppComponent, {
               appContext: undefined, // Будет пересчитан в useEffect
               isProd: isProduction, // Передаем isProd в компонент для клиентских оптимизаций
             })
           );
+          return root;
         },
       };
     },
   };
 }
 
+// Объект страницы, на который можно перейти (результат definePage)
+export interface NavigateTarget<Path extends string = string> {
+  path: Path;
+  href: (...args: any[]) => string;
+}
+
+type TargetPath<TPage> = TPage extends NavigateTarget<infer Path> ? Path : never;
+type TargetArgs<TPage> = TPage extends { href: (...args: infer Args) => string } ? Args : never;
+// Аргументы href страницы (params, search), затем опции перехода
+type PageNavigateArgs<TPage> = TargetArgs<TPage> extends [infer Params, (infer Search)?]
+  ? [params: Params, search?: Search, options?: NavigateOptions]
+  : TargetArgs<TPage> extends [(infer Params)?, (infer Search)?]
+  ? [params?: Params, search?: Search, options?: NavigateOptions]
+  : never;
+
 // Navigate function для SPA
-export function navigateTo(url: string) {
+// navigateTo(characterPage, { id: 1 }) строит url через href страницы,
+// поэтому переименование path или params страницы становится ошибкой типов.
+// Опции перехода передаются после url или после search страницы:
+//   navigateTo('/episodes', { keepPreviousView: true })
+//   navigateTo(charactersPage, {}, { page: 2 }, { replace: true, scroll: false })
+export function navigateTo(url: string, options?: NavigateOptions): void;
+export function navigateTo<TPage extends NavigateTarget<any>>(page: TPage, ...args: PageNavigateArgs<TPage>): void;
+export function navigateTo(target: string | NavigateTarget<any>, ...args: any[]) {
   if (typeof window === 'undefined') return;
 
-  // Нормализуем URL для сравнения (убираем query и hash)
-  const normalizeUrl = (u: string) => {
-    try {
-      const urlObj = new URL(u, window.location.origin);
-      return urlObj.pathname;
-    } catch {
-      // Если URL относительный, просто возвращаем его
-      return u.split('?')[0].split('#')[0];
-    }
-  };
+  const url = typeof target === 'string' ? target : target.href(args[0], args[1]);
+  const options: NavigateOptions = (typeof target === 'string' ? args[0] : args[2]) || {};
 
-  const normalizedUrl = normalizeUrl(url);
-  const currentPath = normalizeUrl(window.location.pathname);
+  navigate(url, options);
+}
 
-  // Если URL совпадает с текущим, не делаем навигацию
-  if (normalizedUrl === currentPath) {
-    return;
-  }
 
-  (async () => {
-    try {
-      const response = await fetch(`/api/page?url=${encodeURIComponent(url)}`);
-      const data = await response.json();
-
-      if (data.type === 'redirect') {
-        const targetUrl = data.to;
-        if (targetUrl !== url) {
-          navigationCache.delete(url);
-          window.history.replaceState({}, '', targetUrl);
-          window.dispatchEvent(new PopStateEvent('popstate'));
-          return;
-        }
-      }
+// Navigate, принимающий только страницы контракта или url, подходящие под их path:
+//   export const navigate = createNavigate<typeof homePage | typeof characterPage>();
+//   navigate('/character/1'); navigate(characterPage, { id: 1 });
+export type TypedNavigate<TPages extends NavigateTarget<any>> = {
+  (url: UrlFromPath<TargetPath<TPages>>, options?: NavigateOptions): void;
+  <TPage extends TPages>(page: TPage, ...args: PageNavigateArgs<TPage>): void;
+};
 
-      navigationCache.set(url, { data, timestamp: Date.now() });
-      window.history.pushState({}, '', url);
-      window.dispatchEvent(new PopStateEvent('popstate'));
-    } catch (error) {
-      console.error('Failed to navigate:', error);
-      window.history.pushState({}, '', url);
-      window.dispatchEvent(new PopStateEvent('popstate'));
-    }
-  })();
+export function createNavigate<TPages extends NavigateTarget<any>>(): TypedNavigate<TPages> {
+  return navigateTo as TypedNavigate<TPages>;
 }
-
@@ -0,0 +1,230 @@
+// Тестирование контрактов и приложений без HTTP-сервера
+// Отдельная точка входа (@monorepo/contract-page-2/testing), в bundle приложения не попадает:
+//   resolvePage  - результат page() по url: matchRoute + getAppContext + guards + page()
+//   renderPage   - SSR HTML документа по url
+//   renderClient - приложение в jsdom с клиентской навигацией, /api/page и actions обслуживаются в памяти
+
+import type { Contract, PageResult } from './index';
+import type { PageErrorResult } from './errors';
+import type { GuardBlockResult } from './guards';
+import { createPageLoader, pageDataStatus } from './loader';
+import type { InvalidParamsResult } from './params';
+import { applyRuntimeResponse, createRuntimeResponse, type RuntimeResponse, type ServerRequest } from './request';
+import { getNavigation, navigate, stopRouter, subscribeRouter, type NavigateOptions } from './router';
+import { getSerializer, type Serializer } from './serializer';
+import type { RenderedPage } from './spa';
+
+// =======================
+// Типы
+// Результат page() страницы (PageResult, если страница не указана)
+type ResultOf<TPage> = TPage extends { page: (...args: any[]) => infer R } ? Awaited<R> : PageResult;
+
+export interface ResolvePageOptions<TPage> {
+  // Страница, которая должна совпасть с url (результат definePage): задает тип result
+  page?: TPage;
+  isProd?: boolean;
+  // HTTP-запрос страницы (runtime.headers, cookies, locale). Без него runtime содержит только url
+  request?: Request;
+  ip?: string;
+}
+
+export interface ResolvedPage<Result, AppCtx> {
+  // Статус, который отдал бы /api/page
+  status: number;
+  // Результат page() или результат, прервавший загрузку (guard, layout, ошибка, невалидные params).
+  // Отложенные данные (defer) не дожидаются
+  result: Result | GuardBlockResult | PageErrorResult | InvalidParamsResult;
+  layouts: Record<string, any>;
+  // Params, приведенные схемой (null - params невалидны)
+  params: any;
+  appContext: AppCtx | undefined;
+  // Статус, заголовки и cookies, заданные через runtime.response (только с request)
+  response: RuntimeResponse | undefined;
+}
+
+// Объект, который возвращает defineApp
+export interface TestApp {
+  renderPage: (
+    url: string,
+    options: { renderToString: (element: any) => string; clientEntry: string; isProduction: boolean }
+  ) => Promise<RenderedPage>;
+  runClient: (options: { createRoot: (container: Element) => any; isProd?: boolean }) => { unmount: () => void };
+}
+
+export interface RenderPageOptions {
+  renderToString: (element: any) => string;
+  // Модуль клиента в документе (по умолчанию '/assets/main.js')
+  clientEntry?: string;
+  isProd?: boolean;
+}
+
+export interface PageFetchOptions {
+  isProd?: boolean;
+  // fetch для остальных запросов (без него они получают 404)
+  fetch?: typeof fetch;
+}
+
+export interface RenderClientOptions<AppCtx> extends PageFetchOptions {
+  // Контракт, из которого создано приложение: по нему обслуживаются /api/page и actions
+  contract: Contract<AppCtx, any>;
+  createRoot: (container: Element) => any;
+  // Начальный url (по умолчанию '/')
+  url?: string;
+}
+
+export interface TestClient {
+  // Элемент, в который отрендерено приложение
+  container: HTMLElement;
+  // Переход (как navigateTo) и ожидание показа новой страницы
+  navigate: (url: string, options?: NavigateOptions) => Promise<void>;
+  // Ожидание завершения текущей загрузки и рендера ее результата
+  settle: () => Promise<void>;
+  // Размонтирование, сброс роутера и восстановление fetch
+  unmount: () => void;
+}
+
+// =======================
+// Сервер
+export async function resolvePage<AppCtx, TPage = unknown>(
+  contract: Contract<AppCtx, any>,
+  url: string,
+  options: ResolvePageOptions<TPage> = {}
+): Promise<ResolvedPage<ResultOf<TPage>, AppCtx>> {
+  const { page, isProd = false, request, ip } = options;
+  const matched = contract.matchRoute(url);
+  const expectedPath = (page as { path?: string } | undefined)?.path;
+  if (expectedPath !== undefined && matched.page?.path !== expectedPath) {
+    throw new Error(`"${url}" matches ${matched.page ? `"${matched.page.path}"` : 'no page'}, expected "${expectedPath}"`);
+  }
+
+  const server: ServerRequest | undefined = request ? { request, ip, response: createRuntimeResponse() } : undefined;
+  const response = server?.response;
+  const { createRuntime, loadAppContext, loadRequestData } = createPageLoader(contract, isProd);
+  if (!matched.page) {
+    const appContext = await loadAppContext(createRuntime(url, server));
+    return { status: 404, result: { type: 'not-found' }, layouts: {}, params: null, appContext, response };
+  }
+
+  const { appContext, data } = await loadRequestData(url, matched, new Set(), server);
+  return {
+    status: pageDataStatus(data),
+    result: data.page,
+    layouts: data.layouts,
+    params: data.params,
+    appContext,
+    response,
+  };
+}
+
+export function renderPage(app: TestApp, url: string, options: RenderPageOptions): Promise<RenderedPage> {
+  const { renderToString, clientEntry = '/assets/main.js', isProd = false } = options;
+  return app.renderPage(url, { renderToString, clientEntry, isProduction: isProd });
+}
+
+// =======================
+// Клиент
+// Ответы /api/page и actions - в формате сериализатора приложения (как у runServer)
+function jsonResponse(status: number, body: unknown, serializer?: Serializer) {
+  return new Response(serializer ? serializer.stringify(body) : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Запрос к приложению с cookies документа (как их отправил бы браузер)
+function serverRequest(href: string, init: RequestInit | undefined): ServerRequest {
+  const request = new Request(new URL(href, 'http://localhost'), init);
+  if (typeof document !== 'undefined' && document.cookie && !request.headers.has('Cookie')) {
+    request.headers.set('Cookie', document.cookie);
+  }
+  return { request, response: createRuntimeResponse() };
+}
+
+// fetch, отвечающий на /api/page и POST /api/action/:name так же, как runServer, но без сети
+export function createPageFetch<AppCtx>(contract: Contract<AppCtx, any>, options: PageFetchOptions = {}): typeof fetch {
+  const { isProd = false, fetch: fallback } = options;
+  const { loadPageResponse, runActionRequest } = createPageLoader(contract, isProd);
+
+  return async (input, init) => {
+    const href = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const { pathname, searchParams } = new URL(href, 'http://localhost');
+
+    if (pathname === '/api/page') {
+      const url = searchParams.get('url');
+      if (!url) return jsonResponse(400, { error: 'url required' }, getSerializer());
+      const server = serverRequest(href, init);
+      const { status, data } = await loadPageResponse(
+        url,
+        new Set(searchParams.getAll('keep')),
+        searchParams.get('appContext') === '1',
+        server
+      );
+      return applyRuntimeResponse(jsonResponse(status, data, getSerializer()), server.response);
+    }
+
+    const action = pathname.match(/^\/api\/action\/([^/]+)$/);
+    if (action && init?.method === 'POST') {
+      const body = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+      const server = serverRequest(href, init);
+      const { status, body: response } = await runActionRequest(decodeURIComponent(action[1]), body, server);
+      return applyRuntimeResponse(jsonResponse(status, response, getSerializer()), server.response);
+    }
+
+    if (fallback) return fallback(input, init);
+    return jsonResponse(404, { error: `No test response for ${href}` });
+  };
+}
+
+const tick = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Ожидание, пока роутер не закончит загрузку, и рендера результата
+async function settle() {
+  await tick();
+  while (getNavigation().state === 'loading') {
+    await new Promise<void>((resolve) => {
+      const unsubscribe = subscribeRouter((event) => {
+        if (event.type === 'navigation' && event.navigation.state !== 'loading') {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+    await tick();
+  }
+}
+
+// Запуск приложения (runClient) в jsdom: документ без SSR-данных, страница загружается через
+// createPageFetch, как при переходе. Одновременно может быть запущен только один клиент
+export async function renderClient<AppCtx>(app: TestApp, options: RenderClientOptions<AppCtx>): Promise<TestClient> {
+  const { contract, createRoot, url = '/', isProd = false, fetch: fallback } = options;
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = createPageFetch(contract, fallback ? { isProd, fetch: fallback } : { isProd });
+  window.history.replaceState(null, '', url);
+
+  let container = document.getElementById('root');
+  if (!container) {
+    container = document.createElement('div');
+    container.id = 'root';
+    document.body.appendChild(container);
+  }
+
+  const root = app.runClient({ createRoot, isProd });
+  const client: TestClient = {
+    container,
+    navigate: async (target, navigateOptions) => {
+      await navigate(target, navigateOptions);
+      await settle();
+    },
+    settle,
+    unmount: () => {
+      root.unmount();
+      stopRouter();
+      globalThis.fetch = originalFetch;
+      container?.remove();
+    },
+  };
+
+  await settle();
+  return client;
+}